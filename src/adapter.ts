@@ -1,5 +1,21 @@
-import { GoogleDriveAdapterOptions, ChangeEntry } from './types';
+import { GoogleDriveAdapterOptions, ChangeEntry, CheckReport, DatabaseFile, GarbageCollectionReport, IndexEntry, PollingStatus, RevisionHistory, RevTreePath } from './types';
 import { DriveHandler } from './drive';
+import { queryError } from './mango';
+import { compileFilter, compileMap } from './views';
+import { matchesSelector } from 'pouchdb-selector-core';
+import { bytesToBase64, digestOf, matchesDigest, toBinary, toBytes } from './attachments';
+import {
+    collectConflicts,
+    collectDeletedConflicts,
+    collectLeaves,
+    latestLeaf,
+    mergeRevTree,
+    parseRev,
+    pathFromHistory,
+    revExists,
+    revisionHistory,
+    revisionInfo
+} from './revtree';
 
 /**
  * Schedule a function to run asynchronously.
@@ -105,7 +121,7 @@ export function GoogleDriveAdapter(PouchDB: any) {
         });
 
         // Load data from Drive and initialize
-        db.load().then(() => {
+        db.open().then(() => {
             log('Database loaded');
             afterDBCreated();
         }).catch((err: Error) => {
@@ -163,6 +179,244 @@ export function GoogleDriveAdapter(PouchDB: any) {
 
         api.info = api._info;
 
+        /** Polling schedule and time of the last remote check (sync freshness) */
+        api.getPollingStatus = function (): PollingStatus {
+            return db.getPollingStatus();
+        };
+
+        /** Number of offline writes waiting in the outbox */
+        api.getPendingChangesCount = function (): number {
+            return db.getPendingChangesCount();
+        };
+
+        /** Commit the outbox to Drive now instead of waiting for the next poll */
+        api.flushPendingChanges = function (): Promise<void> {
+            return db.flushPendingChanges();
+        };
+
+        /**
+         * Check the Drive folder for dangling references, unreadable files and seq gaps.
+         * `{ repair: true }` rebuilds `_meta.json` and the index from the files present.
+         */
+        api.fsck = function (opts?: any, callback?: any): Promise<CheckReport> | void {
+            if (typeof opts === 'function') {
+                callback = opts;
+                opts = {};
+            }
+            const promise = db.check(opts || {});
+            if (callback) {
+                promise.then(res => callback(null, res)).catch(err => callback(err));
+            } else {
+                return promise;
+            }
+        };
+
+        /**
+         * Delete orphaned logs, snapshot files and attachment blobs older than the grace
+         * period (`gcGracePeriodMs`). `{ dryRun: true }` only reports them.
+         */
+        api.collectGarbage = function (opts?: any, callback?: any): Promise<GarbageCollectionReport> | void {
+            if (typeof opts === 'function') {
+                callback = opts;
+                opts = {};
+            }
+            const promise = db.collectGarbage(opts || {});
+            if (callback) {
+                promise.then(res => callback(null, res)).catch(err => callback(err));
+            } else {
+                return promise;
+            }
+        };
+
+        /** Every file in the database folder with its kind (meta, change log, snapshot, ...) and size */
+        api.listDatabaseFiles = function (callback?: any): Promise<DatabaseFile[]> | void {
+            const promise = db.listDatabaseFiles();
+            if (callback) {
+                promise.then(res => callback(null, res)).catch(err => callback(err));
+            } else {
+                return promise;
+            }
+        };
+
+        /**
+         * Remove leaf `rev` of a document and the branch only it uses, as if it was never
+         * written. Other clients drop it when they replay the log. Resolves with
+         * `{ ok, deletedRevs }`; purging the last leaf removes the document entirely.
+         */
+        api.purge = function (docId: string, rev: string, callback?: any): Promise<any> | void {
+            const promise = db.purge(docId, rev);
+            if (callback) {
+                promise.then(res => callback(null, res)).catch(err => callback(err));
+            } else {
+                return promise;
+            }
+        };
+
+        /**
+         * Mango queries with the pouchdb-find API. Indexes are stored as files in the
+         * Drive folder and listed in `_meta.json`; no design docs are written.
+         */
+        api.createIndex = function (requestDef: any, callback?: any): Promise<any> | void {
+            const promise = db.createMangoIndex(requestDef && requestDef.index);
+            if (callback) {
+                promise.then(res => callback(null, res)).catch(err => callback(err));
+            } else {
+                return promise;
+            }
+        };
+
+        api.getIndexes = function (opts?: any, callback?: any): Promise<any> | void {
+            if (typeof opts === 'function') {
+                callback = opts;
+                opts = {};
+            }
+            const promise = (async () => {
+                const indexes = (await db.getMangoIndexes()).map(index => ({
+                    ddoc: index.ddoc,
+                    name: index.name,
+                    type: 'json',
+                    def: {
+                        fields: index.fields,
+                        ...(index.partialFilterSelector ? { partial_filter_selector: index.partialFilterSelector } : {})
+                    }
+                }));
+                const allDocs = { ddoc: null, name: '_all_docs', type: 'special', def: { fields: [{ _id: 'asc' }] } };
+                return { indexes: [allDocs, ...indexes], total_rows: indexes.length + 1 };
+            })();
+            if (callback) {
+                promise.then(res => callback(null, res)).catch(err => callback(err));
+            } else {
+                return promise;
+            }
+        };
+
+        api.deleteIndex = function (indexDef: any, opts?: any, callback?: any): Promise<any> | void {
+            if (typeof opts === 'function') {
+                callback = opts;
+                opts = {};
+            }
+            const promise = (async () => {
+                if (!indexDef || !indexDef.ddoc) throw queryError('you must supply an index.ddoc');
+                if (!indexDef.name) throw queryError('you must supply an index.name');
+                await db.deleteMangoIndex(indexDef.ddoc, indexDef.name);
+                return { ok: true };
+            })();
+            if (callback) {
+                promise.then(res => callback(null, res)).catch(err => callback(err));
+            } else {
+                return promise;
+            }
+        };
+
+        api.find = function (requestDef: any, callback?: any): Promise<any> | void {
+            const promise = db.find(requestDef);
+            if (callback) {
+                promise.then(res => callback(null, res)).catch(err => callback(err));
+            } else {
+                return promise;
+            }
+        };
+
+        /**
+         * Map/reduce queries. Design doc views are stored as files in the Drive folder
+         * and updated incrementally, so clients sharing the folder reuse them.
+         */
+        api.query = function (fun: any, opts?: any, callback?: any): Promise<any> | void {
+            if (typeof opts === 'function') {
+                callback = opts;
+                opts = {};
+            }
+            const promise = db.queryView(fun, opts || {});
+            if (callback) {
+                promise.then(res => callback(null, res)).catch(err => callback(err));
+            } else {
+                return promise;
+            }
+        };
+
+        api.viewCleanup = function (callback?: any): Promise<any> | void {
+            const promise = db.viewCleanup().then(() => ({ ok: true }));
+            if (callback) {
+                promise.then(res => callback(null, res)).catch(err => callback(err));
+            } else {
+                return promise;
+            }
+        };
+
+        /** Load one revision and add the metadata fields requested in opts */
+        async function loadRevision(id: string, rev: string, opts: any, revTree: RevTreePath[]): Promise<any | null> {
+            const body = await db.getRevision(id, rev);
+            if (!body) return null;
+
+            // Copy so decorations never leak into the body cache
+            const doc: any = Object.assign({}, body, { _id: id, _rev: rev });
+            delete doc._revisions;
+            if (opts.revs) doc._revisions = revisionHistory(revTree, rev);
+            if (opts.revs_info) doc._revs_info = revisionInfo(revTree, rev);
+            if (opts.conflicts) {
+                const conflicts = collectConflicts(revTree);
+                if (conflicts.length) doc._conflicts = conflicts;
+            }
+            if (opts.deleted_conflicts) {
+                const deletedConflicts = collectDeletedConflicts(revTree);
+                if (deletedConflicts.length) doc._deleted_conflicts = deletedConflicts;
+            }
+            return await readAttachments(doc, opts);
+        }
+
+        /** Inline attachment data when opts.attachments is set, stubs otherwise */
+        async function readAttachments(doc: any, opts: any): Promise<any> {
+            if (!doc || !doc._attachments) return doc;
+
+            const attachments: Record<string, any> = {};
+            for (const [name, att] of Object.entries<any>(doc._attachments)) {
+                if (opts.attachments) {
+                    const bytes = await attachmentBytes(att);
+                    const { stub, length, ...rest } = att;
+                    rest.data = opts.binary ? toBinary(bytes, att.content_type) : bytesToBase64(bytes);
+                    attachments[name] = rest;
+                } else {
+                    const { data, ...rest } = att;
+                    attachments[name] = Object.assign(rest, { stub: true });
+                }
+            }
+            return Object.assign({}, doc, { _attachments: attachments });
+        }
+
+        async function attachmentBytes(att: any): Promise<Uint8Array> {
+            // Bodies written before blob storage still carry inline base64 data
+            if (att.data) return await toBytes(att.data);
+            const bytes = await db.getAttachmentData(att.digest);
+            if (!bytes) throw notFound('missing');
+            return bytes;
+        }
+
+        /** Upload inline attachment data as blobs and replace it with stubs */
+        async function storeAttachments(doc: any, revPos: number): Promise<void> {
+            if (!doc._attachments) return;
+
+            const attachments: Record<string, any> = {};
+            for (const [name, att] of Object.entries<any>(doc._attachments)) {
+                if (att.stub) {
+                    attachments[name] = att;
+                    continue;
+                }
+                const bytes = await toBytes(att.data);
+                // Replicated attachments keep their digest, so stubs still match the source's;
+                // a digest left over from an earlier version of the data is replaced
+                const digest = att.digest && await matchesDigest(bytes, att.digest) ? att.digest : await digestOf(bytes);
+                await db.saveAttachment(digest, bytes, att.content_type);
+                attachments[name] = {
+                    content_type: att.content_type,
+                    digest,
+                    length: bytes.length,
+                    revpos: att.revpos || revPos,
+                    stub: true
+                };
+            }
+            doc._attachments = attachments;
+        }
+
         // Get a single document by ID (Async fetch)
         api._get = function (id: string, opts: any, callback: any): Promise<any> | void {
             if (typeof opts === 'function') {
@@ -175,46 +429,46 @@ export function GoogleDriveAdapter(PouchDB: any) {
                 opts = {};
             }
 
-            // PouchDB sometimes asks for metadata only (revs, revs_info) 
             log('_get id:', id, 'opts:', JSON.stringify(opts));
 
-            const promise = db.get(id).then(doc => {
-                if (!doc) {
-                    log('_get missing', id);
-                    const err = {
-                        status: 404,
-                        error: true,
-                        name: 'not_found',
-                        message: 'missing'
-                    };
-                    if (callback) callback(err);
-                    throw err;
-                }
+            const promise = (async () => {
+                const revTree = db.getRevTree(id);
 
-                // Support open_revs for bulkGet shim compatibility
                 if (opts.open_revs) {
-                    log('_get handling open_revs for:', id);
-                    // We currently only store the winning revision.
-                    // If open_revs='all' or includes our rev, return it.
-                    // TODO: Robust conflict support would check exact rev matching.
-                    const result = [{ ok: doc }];
-                    if (callback) callback(null, result);
+                    if (!revTree && opts.open_revs === 'all') throw notFound('missing');
+                    const revs: string[] = opts.open_revs === 'all'
+                        ? collectLeaves(revTree!).map(l => l.rev)
+                        : opts.open_revs;
+
+                    const result: any[] = [];
+                    for (const requested of revs) {
+                        const rev = revTree && opts.latest ? latestLeaf(revTree, requested) || requested : requested;
+                        const doc = revTree ? await loadRevision(id, rev, opts, revTree) : null;
+                        result.push(doc ? { ok: doc } : { missing: requested });
+                    }
                     return result;
                 }
 
-                log('_get returning standard doc for:', id);
-                // If only rev was requested? (Internal optimization)
-                // PouchDB core handles this if we return the full doc.
-                const response = doc;
-                if (callback) callback(null, response);
-                return response;
-            }).catch(e => {
-                log('_get error', e);
-                if (callback) callback(e);
-                throw e;
-            });
+                if (!revTree) throw notFound('missing');
+                const entry = db.getIndexEntry(id)!;
+                if (!opts.rev && entry.deleted) throw notFound('deleted');
 
-            return promise;
+                let rev = opts.rev || entry.rev;
+                if (opts.latest) rev = latestLeaf(revTree, rev) || rev;
+
+                const doc = await loadRevision(id, rev, opts, revTree);
+                if (!doc) throw notFound('missing');
+                return doc;
+            })();
+
+            if (callback) {
+                promise.then(res => callback(null, res)).catch(err => {
+                    log('_get error', err);
+                    callback(err);
+                });
+            } else {
+                return promise;
+            }
         };
 
         api.get = api._get;
@@ -232,74 +486,74 @@ export function GoogleDriveAdapter(PouchDB: any) {
             }
 
             const promise = (async () => {
-                const keys = await db.getIndexKeys();
-                const total = keys.length; // Total keys (including deleted?)
-
-                let startIndex = opts.skip || 0;
-                let limit = typeof opts.limit === 'number' ? opts.limit : keys.length;
-
-                let filteredKeys = keys;
-                if (opts.startkey) filteredKeys = filteredKeys.filter(k => k >= opts.startkey);
-                if (opts.endkey) filteredKeys = filteredKeys.filter(k => k <= opts.endkey);
-                if (opts.key) filteredKeys = filteredKeys.filter(k => k === opts.key);
-                if (opts.keys) filteredKeys = opts.keys;
-
-                filteredKeys.sort();
-                if (opts.descending) filteredKeys.reverse();
-
-                const sliced = filteredKeys.slice(startIndex, startIndex + limit);
+                // `_local` docs are not listed; deleted docs only show up when asked for by key
+                const ids = (await db.getIndexKeys()).filter(id => !id.startsWith('_local/'));
+                const live = ids.filter(id => !db.getIndexEntry(id)!.deleted).sort();
+                const skip = opts.skip || 0;
+                const limit = typeof opts.limit === 'number' ? opts.limit : Infinity;
+
+                let selected: string[];
+                let offset = skip;
+                if (opts.keys) {
+                    const keys: string[] = opts.descending ? [...opts.keys].reverse() : opts.keys;
+                    selected = keys.slice(skip, skip + limit);
+                } else {
+                    // Keys compare as raw strings; descending swaps which end startkey is
+                    const ordered = opts.descending ? [...live].reverse() : live;
+                    const direction = opts.descending ? -1 : 1;
+                    const compare = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0) * direction;
+                    const startkey = opts.key !== undefined ? opts.key : opts.startkey !== undefined ? opts.startkey : opts.start_key;
+                    const endkey = opts.key !== undefined ? opts.key : opts.endkey !== undefined ? opts.endkey : opts.end_key;
+
+                    let first = 0;
+                    if (startkey !== undefined) {
+                        while (first < ordered.length && compare(ordered[first], startkey) < 0) first++;
+                    }
+                    let inRange = ordered.slice(first);
+                    if (endkey !== undefined) {
+                        inRange = inRange.filter(id => opts.inclusive_end === false ? compare(id, endkey) < 0 : compare(id, endkey) <= 0);
+                    }
+                    selected = inRange.slice(skip, skip + limit);
+                    offset = first + skip;
+                }
 
-                // Fetch actual docs if needed
+                const entries = selected.map(id => typeof id === 'string' && !id.startsWith('_local/') ? db.getIndexEntry(id) : undefined);
+                const bodies: Record<string, any> = {};
                 if (opts.include_docs) {
-                    const docs = await db.getMulti(sliced);
-                    const rows = sliced.map((id, i) => {
-                        const doc = docs[i];
-                        const entry = db.getIndexEntry(id);
-
-                        if (!doc && (!entry || entry.deleted)) return { key: id, error: 'not_found' };
-                        if (!doc && entry) {
-                            // This implies fetch failed but exists in index? Or null result.
-                            return { key: id, error: 'not_found' };
-                        }
+                    const wanted = [...new Set(selected.filter((id, i) => entries[i] && !entries[i]!.deleted))];
+                    const docs = await db.getMulti(wanted);
+                    wanted.forEach((id, i) => bodies[id] = docs[i]);
+                }
 
-                        const row: any = {
-                            id,
-                            key: id,
-                            value: { rev: entry?.rev || doc._rev }
-                        };
-                        row.doc = doc;
+                const rows = await Promise.all(selected.map(async (id, i): Promise<any> => {
+                    const entry = entries[i];
+                    if (!entry) return { key: id, error: 'not_found' };
+                    const row: any = { id, key: id, value: { rev: entry.rev } };
+                    if (entry.deleted) {
+                        row.value.deleted = true;
+                        if (opts.include_docs) row.doc = null;
                         return row;
-                    });
-
-                    const result: any = {
-                        total_rows: total,
-                        offset: startIndex,
-                        rows: rows.filter(r => !r.error || !opts.keys) // Filter errored unless specifically asked via keys?
-                        // CouchDB usually returns error row if distinct keys requested.
-                    };
-                    if (opts.update_seq) result.update_seq = db.seq;
-                    return result;
-
-                } else {
-                    // Index only (Fast!)
-                    const rows = sliced.map(id => {
-                        const entry = db.getIndexEntry(id);
-                        if (!entry || entry.deleted) return { key: id, error: 'not_found' };
-                        return {
-                            id,
-                            key: id,
-                            value: { rev: entry.rev }
-                        };
-                    });
-
-                    const result: any = {
-                        total_rows: total,
-                        offset: startIndex,
-                        rows
-                    };
-                    if (opts.update_seq) result.update_seq = db.seq;
-                    return result;
-                }
+                    }
+                    if (!opts.include_docs) return row;
+
+                    const doc = bodies[id];
+                    if (!doc) return { key: id, error: 'not_found' };
+                    row.doc = await readAttachments(doc, opts);
+                    if (opts.conflicts) {
+                        const conflicts = collectConflicts(db.getRevTree(id) || []);
+                        if (conflicts.length) row.doc = Object.assign({}, row.doc, { _conflicts: conflicts });
+                    }
+                    return row;
+                }));
+
+                const result: any = {
+                    total_rows: live.length,
+                    offset,
+                    // A body that cannot be read drops its row from a range, and is an error row for a key
+                    rows: opts.keys ? rows : rows.filter(r => !r.error)
+                };
+                if (opts.update_seq) result.update_seq = db.seq;
+                return result;
             })();
 
             if (callback) {
@@ -316,33 +570,34 @@ export function GoogleDriveAdapter(PouchDB: any) {
             const docs = opts.docs;
             const ids = docs.map((d: any) => d.id);
 
-            return db.getMulti(ids).then(results => {
-                const response = {
-                    results: ids.map((id: string, i: number) => {
-                        const doc = results[i];
-                        const requestedRev = docs[i].rev;
-                        const entry = db.getIndexEntry(id);
+            const promise = (async () => {
+                // Warm the body cache with one download per file
+                await db.getMulti(ids);
+
+                const results = [];
+                for (const { id, rev: requestedRev } of docs) {
+                    const revTree = db.getRevTree(id);
+                    let doc: any = null;
+                    if (revTree) {
+                        let rev = requestedRev || db.getIndexEntry(id)!.rev;
+                        if (opts.latest) rev = latestLeaf(revTree, rev) || rev;
+                        doc = await loadRevision(id, rev, opts, revTree);
+                    }
 
-                        let docResult: any;
-                        if (!doc || (requestedRev && doc._rev !== requestedRev)) {
-                            docResult = {
-                                error: {
-                                    status: 404,
-                                    error: true,
-                                    name: 'not_found',
-                                    message: 'missing'
-                                }
-                            };
-                        } else {
-                            docResult = { ok: doc };
+                    const docResult = doc ? { ok: doc } : {
+                        error: {
+                            status: 404,
+                            error: true,
+                            name: 'not_found',
+                            message: 'missing'
                         }
+                    };
+                    results.push({ id, docs: [docResult] });
+                }
+                return { results };
+            })();
 
-                        return {
-                            id,
-                            docs: [docResult]
-                        };
-                    })
-                };
+            return promise.then(response => {
                 if (callback) callback(null, response);
                 return response;
             }).catch((err: any) => {
@@ -356,21 +611,42 @@ export function GoogleDriveAdapter(PouchDB: any) {
 
         // Bulk document operations
         api._bulkDocs = function (req: any, opts: any, callback: any): Promise<any> | void {
+            if (typeof opts === 'function') {
+                callback = opts;
+                opts = {};
+            }
+            opts = opts || {};
+            if (Array.isArray(req)) {
+                req = { docs: req };
+            }
+
             const docs = req.docs;
             const results: any[] = [];
-            const newEdits = opts.new_edits !== false;
+            const newEdits = opts.new_edits !== false && req.new_edits !== false;
             const changes: ChangeEntry[] = [];
 
-            // We need to validate revisions against Index
+            // We need to validate revisions against the rev trees in the Index
             // This does NOT require fetching bodies usually
+            // Trees are tracked per batch so repeated edits of one doc chain up
+            const trees: Record<string, RevTreePath[]> = {};
 
             for (const doc of docs) {
                 const id = doc._id;
                 const seq = db.getNextSeq() + changes.length;
-                const entry = db.getIndexEntry(id);
+                const revTree = trees[id] || db.getRevTree(id) || [];
+                const leaves = collectLeaves(revTree);
+                let revisions: RevisionHistory;
+
+                if (newEdits) {
+                    // The edit extends the leaf named by _rev, or the tombstone when recreating a doc
+                    let parent = leaves.find(l => l.rev === doc._rev);
+                    if (doc._rev ? !parent : leaves.length > 0 && !leaves[0].deleted) {
+                        results.push(revConflict(id));
+                        continue;
+                    }
+                    if (!doc._rev) parent = leaves[0];
 
-                if (doc._deleted) {
-                    if (!entry || entry.deleted) {
+                    if (doc._deleted && (!parent || parent.deleted)) {
                         results.push({
                             ok: false,
                             id,
@@ -380,69 +656,67 @@ export function GoogleDriveAdapter(PouchDB: any) {
                         continue;
                     }
 
-                    // Check rev
-                    const oldRev = entry.rev || '0-0'; // Index has latest
-                    // If mismatch? PouchDB handles conflict logic before calling us sometimes?
-                    // But we should verify. 
-                    // If doc._rev matches entry.rev, we are good.
-
-                    const revNum = parseInt(oldRev.split('-')[0], 10) + 1;
-                    const newRev = revNum + '-' + generateRevId();
-
-                    changes.push({
-                        seq,
-                        id,
-                        rev: newRev,
-                        deleted: true,
-                        timestamp: Date.now()
-                    });
-
-                    results.push({ ok: true, id, rev: newRev });
+                    const revHash = generateRevId();
+                    revisions = parent
+                        ? { start: parent.pos + 1, ids: [revHash, parseRev(parent.rev).hash] }
+                        : { start: 1, ids: [revHash] };
                 } else {
-                    let newRev: string;
-                    let savedDoc: any;
-
-                    if (newEdits) {
-                        const oldRev = entry?.rev || '0-0';
-                        const revNum = parseInt(oldRev.split('-')[0], 10) + 1;
-                        const revHash = generateRevId();
-                        newRev = revNum + '-' + revHash;
-
-                        savedDoc = Object.assign({}, doc, { _rev: newRev });
-                        if (doc._revisions) {
-                            savedDoc._revisions = {
-                                start: revNum,
-                                ids: [revHash, ...(doc._revisions.ids || [])]
-                            };
-                            if (savedDoc._revisions.ids.length > 500) {
-                                savedDoc._revisions.ids = savedDoc._revisions.ids.slice(0, 500);
-                            }
-                        }
-                    } else {
-                        newRev = doc._rev;
-                        savedDoc = Object.assign({}, doc, { _rev: newRev });
+                    if (!doc._rev) {
+                        results.push({
+                            ok: false,
+                            id,
+                            error: 'bad_request',
+                            reason: 'Document must have a _rev when new_edits is false'
+                        });
+                        continue;
                     }
 
-                    changes.push({
-                        seq,
-                        id,
-                        rev: newRev,
-                        doc: savedDoc,
-                        timestamp: Date.now()
-                    });
+                    const { pos, hash } = parseRev(doc._rev);
+                    revisions = doc._revisions || { start: pos, ids: [hash] };
 
-                    results.push({ ok: true, id, rev: newRev });
+                    // Replicators resend revisions we already have, nothing to graft
+                    if (revExists(revTree, doc._rev)) {
+                        results.push({ ok: true, id, rev: doc._rev });
+                        continue;
+                    }
+                }
+
+                const rev = revisions.start + '-' + revisions.ids[0];
+                const change: ChangeEntry = {
+                    seq,
+                    id,
+                    rev,
+                    revisions,
+                    timestamp: Date.now()
+                };
+                if (doc._deleted) {
+                    change.deleted = true;
+                } else {
+                    // History lives in the rev tree, not in the body
+                    const savedDoc = Object.assign({}, doc, { _rev: rev });
+                    delete savedDoc._revisions;
+                    change.doc = savedDoc;
                 }
+
+                changes.push(change);
+                trees[id] = mergeRevTree(revTree, pathFromHistory(revisions, !!doc._deleted));
+                results.push({ ok: true, id, rev });
             }
 
             log('_bulkDocs flushing', changes.length, 'changes');
             // Append changes to log
-            const promise = db.appendChanges(changes).then(() => {
+            // Attachment blobs are uploaded before the stubs referencing them are committed
+            const promise = Promise.all(
+                changes.map(c => c.doc ? storeAttachments(c.doc, parseRev(c.rev).pos) : undefined)
+            ).then(() => db.appendChanges(changes, { newEdits })).then(() => {
                 if (callback) nextTick(() => callback(null, results));
                 return results;
             }).catch((err: Error) => {
                 log('_bulkDocs error', err);
-                if (callback) callback(err);
+                if (callback) {
+                    callback(err);
+                    return;
+                }
                 throw err;
             });
 
@@ -455,13 +729,43 @@ export function GoogleDriveAdapter(PouchDB: any) {
         api._changes = function (opts: any): { cancel: () => void } {
             opts = Object.assign({}, opts);
 
-            const since = opts.since || 0;
+            // CouchDB ignores `since` for descending feeds
+            const since = opts.descending ? 0 : (opts.since || 0);
             const limit = typeof opts.limit === 'number' ? opts.limit : Infinity;
             const returnDocs = opts.return_docs !== false;
+            const docIds: Set<string> | null = opts.doc_ids ? new Set(opts.doc_ids) : null;
             const results: any[] = [];
-            let lastSeq = since;
+            let lastSeq = opts.since || 0;
             let complete = false;
 
+            // Replicators ask for every leaf so conflicting branches travel too
+            const changeRevs = (id: string, rev: string) => {
+                const revTree = opts.style === 'all_docs' ? db.getRevTree(id) : null;
+                return revTree ? collectLeaves(revTree).map(l => ({ rev: l.rev })) : [{ rev }];
+            };
+
+            // The change for a doc, or null when doc_ids or the filter leave it out
+            const matches = changesFilter(opts);
+            async function toChange(id: string, entry: IndexEntry): Promise<any | null> {
+                if (docIds && !docIds.has(id)) return null;
+                const change: any = { id, seq: entry.seq, changes: changeRevs(id, entry.rev) };
+                if (entry.deleted) change.deleted = true;
+
+                const filter = await matches;
+                if (!filter && !opts.include_docs) return change;
+                const doc = entry.deleted ? { _id: id, _rev: entry.rev, _deleted: true } : await db.get(id);
+                if (!doc) return filter ? null : change;
+                if (filter && !filter(doc)) return null;
+                if (opts.include_docs) {
+                    change.doc = await readAttachments(doc, opts);
+                    if (opts.conflicts) {
+                        const conflicts = collectConflicts(db.getRevTree(id) || []);
+                        if (conflicts.length) change.doc = Object.assign({}, change.doc, { _conflicts: conflicts });
+                    }
+                }
+                return change;
+            }
+
             // Setup live listener FIRST (before emitting changes)
             let cancelLive: (() => void) | undefined;
             let liveListener: (changedDocs: Record<string, any>) => void;
@@ -473,60 +777,46 @@ export function GoogleDriveAdapter(PouchDB: any) {
                     for (const id of Object.keys(changedDocs)) {
                         if (id.startsWith('_local/')) continue;
                         const entry = db.getIndexEntry(id);
-                        if (entry && entry.seq > lastSeq) {
-                            const change: any = {
-                                id: id,
-                                seq: entry.seq,
-                                changes: [{ rev: entry.rev }]
-                            };
-
-                            if (opts.include_docs) {
-                                db.get(id).then(doc => {
-                                    change.doc = doc;
-                                    if (opts.onChange) opts.onChange(change);
-                                    lastSeq = Math.max(lastSeq, change.seq);
-                                }).catch(e => log('Live change body fetch error', e));
-                            } else {
-                                if (opts.onChange) opts.onChange(change);
-                                lastSeq = Math.max(lastSeq, change.seq);
-                            }
-                        }
+                        if (!entry || entry.seq <= lastSeq) continue;
+                        toChange(id, entry).then(change => {
+                            if (complete) return;
+                            if (change && opts.onChange) opts.onChange(change);
+                            lastSeq = Math.max(lastSeq, entry.seq);
+                        }).catch(e => log('Live change body fetch error', e));
                     }
                 };
                 cancelLive = db.onChange(liveListener);
             }
 
-            // Process initial changes
+            // Process initial changes, in seq order
             async function processChangesAsync() {
                 log('_changes processing since', since, 'limit', limit, 'live', !!opts.live);
+                await matches; // An unknown design doc filter fails the feed
                 const keys = await db.getIndexKeys();
-                let processed = 0;
-
+                const entries: [string, IndexEntry][] = [];
                 for (const id of keys) {
-                    if (complete || processed >= limit) break;
-                    if (id.startsWith('_local/')) continue;
                     const entry = db.getIndexEntry(id);
-                    if (!entry || entry.seq <= since) continue;
-
-                    const change: any = {
-                        id: id,
-                        seq: entry.seq,
-                        changes: [{ rev: entry.rev }]
-                    };
+                    if (entry && !id.startsWith('_local/') && entry.seq > since) entries.push([id, entry]);
+                }
+                entries.sort((a, b) => opts.descending ? b[1].seq - a[1].seq : a[1].seq - b[1].seq);
 
-                    if (opts.include_docs) {
-                        try {
-                            change.doc = await db.get(id);
-                        } catch (e) {
-                            log('_changes include_docs error', e);
-                        }
+                let processed = 0;
+                for (const [id, entry] of entries) {
+                    if (complete || processed >= limit) break;
+                    let change: any = null;
+                    try {
+                        change = await toChange(id, entry);
+                    } catch (e) {
+                        log('_changes include_docs error', e);
+                        change = { id, seq: entry.seq, changes: changeRevs(id, entry.rev) };
                     }
+                    // Filtered out changes still move the checkpoint forward
+                    lastSeq = opts.descending ? entry.seq : Math.max(lastSeq, entry.seq);
+                    if (!change) continue;
 
                     if (opts.onChange) opts.onChange(change);
                     if (returnDocs) results.push(change);
-
                     processed++;
-                    lastSeq = Math.max(lastSeq, entry.seq);
                 }
 
                 // ✅ Call opts.complete() ONLY for non-live modes
@@ -553,9 +843,41 @@ export function GoogleDriveAdapter(PouchDB: any) {
             };
         };
 
+        /**
+         * The doc filter of a changes request: a filter function, a `selector`, a view
+         * (`filter: '_view'`) or a design doc filter (`'ddoc/name'`). The
+         * pouchdb-changes-filter plugin, when installed, has turned the last ones into
+         * functions already.
+         */
+        async function changesFilter(opts: any): Promise<((doc: any) => boolean) | null> {
+            const req = { query: opts.query_params || {} };
+            if (typeof opts.filter === 'function') return doc => !!opts.filter(doc, req);
+            if (opts.selector) return doc => matchesSelector(doc, opts.selector);
+            if (opts.filter === '_view' || (opts.view && !opts.filter)) {
+                const [ddocName, viewName] = String(opts.view || '').split('/');
+                const ddoc = await db.get('_design/' + ddocName);
+                const view = ddoc && ddoc.views && ddoc.views[viewName];
+                if (!view || !view.map) throw notFound(`missing json key: ${viewName}`);
+                const map = compileMap(view.map);
+                return doc => map(doc).length > 0;
+            }
+            if (typeof opts.filter === 'string' && opts.filter !== '_doc_ids' && opts.filter !== '_selector') {
+                const [ddocName, filterName] = opts.filter.split('/');
+                const ddoc = await db.get('_design/' + ddocName);
+                const source = ddoc && ddoc.filters && ddoc.filters[filterName];
+                if (!source) throw notFound(`missing json key: ${filterName}`);
+                const filter = compileFilter(source);
+                return doc => filter(doc, req);
+            }
+            return null;
+        }
 
         // Manual compaction trigger
-        api._compact = function (callback: any): Promise<any> | void {
+        api._compact = function (opts: any, callback: any): Promise<any> | void {
+            if (typeof opts === 'function') {
+                callback = opts;
+                opts = {};
+            }
             const promise = db.compact().then(() => {
                 const result = { ok: true };
                 if (callback) callback(null, result);
@@ -567,29 +889,48 @@ export function GoogleDriveAdapter(PouchDB: any) {
             return promise;
         };
 
-        api._getRevisionTree = function (docId: string, callback: any): void {
-            const entry = db.getIndexEntry(docId);
-            if (!entry) {
-                return callback({ status: 404, error: true, name: 'not_found', message: 'missing' });
+        // Core's getAttachment expects a different _get contract, so it is replaced like get
+        api.getAttachment = function (docId: string, attachmentId: string, opts: any, callback: any): Promise<any> | void {
+            if (typeof opts === 'function') {
+                callback = opts;
+                opts = {};
             }
+            opts = opts || {};
 
-            // Return a minimal tree based on the known winning revision
-            const revNum = parseInt(entry.rev.split('-')[0], 10);
-            const revHash = entry.rev.split('-')[1];
+            const promise = (async () => {
+                const doc = await api._get(docId, opts.rev ? { rev: opts.rev } : {});
+                const att = doc._attachments && doc._attachments[attachmentId];
+                if (!att) throw notFound('missing');
+                return toBinary(await attachmentBytes(att), att.content_type);
+            })();
 
-            const revTree = [{
-                pos: revNum,
-                ids: [revHash, { status: 'available' }, []]
-            }];
+            if (callback) {
+                promise.then(res => callback(null, res)).catch(err => callback(err));
+            } else {
+                return promise;
+            }
+        };
+
+        api._getAttachment = function (docId: string, attachmentId: string, attachment: any, opts: any, callback: any): void {
+            attachmentBytes(attachment).then(bytes => {
+                callback(null, opts.binary ? toBinary(bytes, attachment.content_type) : bytesToBase64(bytes));
+            }).catch(err => callback(err));
+        };
+
+        api._getRevisionTree = function (docId: string, callback: any): void {
+            const revTree = db.getRevTree(docId);
+            if (!revTree) {
+                return callback(notFound('missing'));
+            }
             callback(null, revTree);
         };
 
         api._close = function (callback: any): Promise<void> | void {
-            db.stopPolling();
+            const promise = db.close();
             if (typeof callback === 'function') {
-                nextTick(callback);
+                promise.then(() => callback(), callback);
             } else {
-                return Promise.resolve();
+                return promise;
             }
         };
 
@@ -601,25 +942,21 @@ export function GoogleDriveAdapter(PouchDB: any) {
                 opts = {};
             }
             db.stopPolling();
-            if (opts.deleteFolder) {
-                return db.deleteFolder().then(() => {
-                    if (typeof callback === 'function') {
-                        callback(null, { ok: true });
-                    }
-                    return { ok: true };
-                }).catch((err: Error) => {
-                    if (typeof callback === 'function') {
-                        callback(err);
-                    }
-                    throw err;
-                });
-            } else {
+            // The Drive folder is only removed on request; the local cache always goes
+            return db.clearLocalCache().then(() => {
+                if (opts.deleteFolder) return db.deleteFolder();
+            }).then(() => {
                 if (typeof callback === 'function') {
-                    nextTick(() => callback(null, { ok: true }));
-                } else {
-                    return Promise.resolve({ ok: true });
+                    callback(null, { ok: true });
                 }
-            }
+                return { ok: true };
+            }).catch((err: Error) => {
+                if (typeof callback === 'function') {
+                    callback(err);
+                    return;
+                }
+                throw err;
+            });
         };
 
         api.destroy = api._destroy;
@@ -721,6 +1058,28 @@ export function GoogleDriveAdapter(PouchDB: any) {
     return GoogleDrivePouch;
 }
 
+/**
+ * PouchDB-style 404 error
+ */
+function notFound(message: string): any {
+    return { status: 404, error: true, name: 'not_found', message, reason: message };
+}
+
+/**
+ * Per-document conflict result for _bulkDocs
+ */
+function revConflict(id: string): any {
+    return {
+        ok: false,
+        id,
+        status: 409,
+        name: 'conflict',
+        error: 'conflict',
+        reason: 'Document update conflict',
+        message: 'Document update conflict'
+    };
+}
+
 /**
  * Generate a random revision ID
  */
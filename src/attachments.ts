@@ -0,0 +1,86 @@
+import { binaryMd5 } from 'pouchdb-md5';
+
+/** Global Blob/Buffer types for environments that might not declare them */
+declare const Buffer: any;
+
+/**
+ * Attachment helpers.
+ *
+ * Attachment bodies are stored as their own Drive files, named after the
+ * digest of their content, so identical blobs are uploaded once. New
+ * attachments get a SHA-256 digest; replicated ones keep the digest they
+ * came with (`md5-` from CouchDB and PouchDB). Document bodies only keep
+ * CouchDB-style stubs.
+ */
+
+const ATTACHMENT_PREFIX = 'attachment-';
+
+/** Drive file name for a blob with the given digest */
+export function attachmentFileName(digest: string): string {
+    const bytes = base64ToBytes(digest.substring(digest.indexOf('-') + 1));
+    let hex = '';
+    for (const b of bytes) hex += b.toString(16).padStart(2, '0');
+    return ATTACHMENT_PREFIX + hex;
+}
+
+export function isAttachmentFileName(name: string): boolean {
+    return name.startsWith(ATTACHMENT_PREFIX);
+}
+
+/** Normalize attachment data (base64 string, Buffer, Blob, ArrayBuffer) to bytes */
+export async function toBytes(data: any): Promise<Uint8Array> {
+    if (typeof data === 'string') return base64ToBytes(data);
+    if (data instanceof Uint8Array) return data;
+    if (data instanceof ArrayBuffer) return new Uint8Array(data);
+    if (data && typeof data.arrayBuffer === 'function') {
+        return new Uint8Array(await data.arrayBuffer());
+    }
+    throw new Error('Unsupported attachment data type');
+}
+
+/** Content digest in the `<algorithm>-<base64>` form CouchDB uses */
+export async function digestOf(bytes: Uint8Array): Promise<string> {
+    const hash = await crypto.subtle.digest('SHA-256', bytes as BufferSource);
+    return 'sha256-' + bytesToBase64(new Uint8Array(hash));
+}
+
+/** Whether `bytes` hash to `digest`. SHA-256 and MD5 digests are checked; others pass */
+export async function matchesDigest(bytes: Uint8Array, digest: string): Promise<boolean> {
+    if (digest.startsWith('sha256-')) return await digestOf(bytes) === digest;
+    if (digest.startsWith('md5-')) return await md5DigestOf(bytes) === digest;
+    return true;
+}
+
+/** MD5 digest as CouchDB computes it, through PouchDB's own helper */
+function md5DigestOf(bytes: Uint8Array): Promise<string> {
+    return new Promise(resolve => binaryMd5(toBinary(bytes, 'application/octet-stream'), (base64: string) => resolve('md5-' + base64)));
+}
+
+/** Binary representation PouchDB returns for the platform: Buffer in Node, Blob in browsers */
+export function toBinary(bytes: Uint8Array, contentType: string): any {
+    if (typeof Buffer !== 'undefined') return Buffer.from(bytes);
+    return new Blob([bytes as BlobPart], { type: contentType });
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+    if (typeof Buffer !== 'undefined') return Buffer.from(bytes).toString('base64');
+    let binary = '';
+    for (const b of bytes) binary += String.fromCharCode(b);
+    return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+    if (typeof Buffer !== 'undefined') return new Uint8Array(Buffer.from(base64, 'base64'));
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+}
+
+/** Digests of every stub referenced by a document body */
+export function collectDigests(doc: any, into: Set<string>): void {
+    if (!doc || !doc._attachments) return;
+    for (const att of Object.values<any>(doc._attachments)) {
+        if (att && att.digest) into.add(att.digest);
+    }
+}
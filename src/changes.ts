@@ -0,0 +1,113 @@
+import { DriveFile, GoogleDriveClient } from './client';
+
+type FolderListener = (files: DriveFile[]) => void;
+
+/** Feeds by credentials, then by API base URL and Shared Drive or space */
+const feeds: Map<any, Map<string, DriveChangeFeed>> = new Map();
+
+/**
+ * Remote change detection through the Drive changes feed.
+ *
+ * A single page token is kept per set of credentials and shared by every open
+ * database, so one `changes.list` call covers all of them. Changed files are
+ * dispatched to the database watching their parent folder.
+ */
+export class DriveChangeFeed {
+    private pageToken: string | null = null;
+    private pendingToken: Promise<void> | null = null;
+    private pendingPoll: Promise<void> | null = null;
+    private lastPollAt = 0;
+    private listeners: Map<string, Set<FolderListener>> = new Map();
+
+    private constructor(private client: GoogleDriveClient, private release: () => void) { }
+
+    /**
+     * The feed shared by all databases using `credentials` against `baseUrl`. A Shared
+     * Drive or the app data space (`scope`) has a changes feed of its own, so databases
+     * there get their own feed.
+     */
+    static shared(client: GoogleDriveClient, credentials: any, baseUrl: string, scope?: string): DriveChangeFeed {
+        let byUrl = feeds.get(credentials);
+        if (!byUrl) {
+            byUrl = new Map();
+            feeds.set(credentials, byUrl);
+        }
+        const key = scope ? `${baseUrl}#${scope}` : baseUrl;
+        let feed = byUrl.get(key);
+        if (!feed) {
+            feed = new DriveChangeFeed(client, () => {
+                byUrl!.delete(key);
+                if (byUrl!.size === 0) feeds.delete(credentials);
+            });
+            byUrl.set(key, feed);
+        }
+        return feed;
+    }
+
+    /**
+     * Report changes to files in `folderId` to `listener`. Resolves once the feed
+     * has a page token, so every change made afterwards is seen. Returns the
+     * function that stops watching.
+     */
+    async watch(folderId: string, listener: FolderListener): Promise<() => void> {
+        await this.ensureToken();
+        let set = this.listeners.get(folderId);
+        if (!set) {
+            set = new Set();
+            this.listeners.set(folderId, set);
+        }
+        set.add(listener);
+
+        return () => {
+            const current = this.listeners.get(folderId);
+            if (!current) return;
+            current.delete(listener);
+            if (current.size === 0) this.listeners.delete(folderId);
+            if (this.listeners.size === 0) this.release();
+        };
+    }
+
+    /**
+     * Fetch new changes and dispatch them. Concurrent callers share one request, and
+     * a poll that finished less than `maxAgeMs` ago is not repeated.
+     */
+    poll(maxAgeMs: number = 0): Promise<void> {
+        if (this.pendingPoll) return this.pendingPoll;
+        if (Date.now() - this.lastPollAt < maxAgeMs) return Promise.resolve();
+
+        this.pendingPoll = (async () => {
+            try {
+                await this.ensureToken();
+                const { changes, newStartPageToken } = await this.client.listChanges(this.pageToken!);
+                this.pageToken = newStartPageToken;
+                this.lastPollAt = Date.now();
+                this.dispatch(changes.filter(c => !c.removed && c.file).map(c => c.file!));
+            } finally {
+                this.pendingPoll = null;
+            }
+        })();
+        return this.pendingPoll;
+    }
+
+    private async ensureToken(): Promise<void> {
+        if (this.pageToken) return;
+        if (!this.pendingToken) {
+            this.pendingToken = (async () => {
+                try {
+                    this.pageToken = await this.client.getStartPageToken();
+                } finally {
+                    this.pendingToken = null;
+                }
+            })();
+        }
+        await this.pendingToken;
+    }
+
+    private dispatch(files: DriveFile[]): void {
+        for (const [folderId, set] of this.listeners) {
+            const inFolder = files.filter(f => f.parents && f.parents.includes(folderId));
+            if (inFolder.length === 0) continue;
+            for (const listener of set) listener(inFolder);
+        }
+    }
+}
@@ -1,3 +1,5 @@
+import { digestOf } from './attachments';
+
 
 export interface DriveFile {
     id: string;
@@ -6,30 +8,217 @@ export interface DriveFile {
     parents?: string[];
     etag?: string;
     modifiedTime?: string;
+    md5Checksum?: string;
+    trashed?: boolean;
+    /** Size in bytes (an int64 string, as Drive returns it) when requested in `fields` */
+    size?: string;
+}
+
+/** Paging and fields of a file listing */
+export interface ListFilesOptions {
+    /** Files per request, at most 1000 (default 1000) */
+    pageSize?: number;
+    /** Fields of each file (default `id,name,mimeType,parents,modifiedTime,md5Checksum`) */
+    fields?: string;
+    /** Sort order, e.g. `name` or `modifiedTime desc` */
+    orderBy?: string;
+}
+
+/** A created or updated file, as returned by an upload */
+export interface UploadResult {
+    id: string;
+    etag: string;
+    modifiedTime: string;
+    md5Checksum?: string;
+}
+
+/** An entry of the Drive changes feed */
+export interface DriveChange {
+    fileId: string;
+    /** The file was removed from the user's view (no `file` resource then) */
+    removed?: boolean;
+    file?: DriveFile;
+}
+
+/** When and how failed Drive requests are retried */
+export interface RetryOptions {
+    /** Total attempts per request, including the first one (default 5). 1 disables retries */
+    maxAttempts?: number;
+    /** Delay before the first retry in ms, doubled on every further attempt (default 500) */
+    baseDelayMs?: number;
+    /** Upper bound for a single backoff delay in ms (default 32000) */
+    maxDelayMs?: number;
+    /** Random spread applied to each delay, as a fraction of it (0-1, default 0.5) */
+    jitter?: number;
+    /** Drive error `reason` codes that are retried regardless of status (403 rate limits) */
+    retryableReasons?: string[];
 }
 
 export interface DriveClientOptions {
     accessToken: string | (() => Promise<string>);
     baseUrl?: string;
     uploadUrl?: string;
+    /** Retry policy for 429/5xx/network errors */
+    retry?: RetryOptions;
+    /** Called when a request is still unauthorized after refreshing the token, or the refresh itself fails */
+    onAuthError?: (err: any) => void | Promise<void>;
+    /** Files larger than this many bytes are sent with a resumable upload (default 5 MiB) */
+    resumableThreshold?: number;
+    /** Bytes per resumable upload request, rounded down to a multiple of 256 KiB (default 1 MiB) */
+    uploadChunkSize?: number;
+    /**
+     * Shared Drive to work in. Listings and the changes feed are scoped to it, and
+     * files created without parents go to its root
+     */
+    driveId?: string;
+    /**
+     * `appDataFolder` keeps every file in the app's hidden data folder, which the
+     * `drive.appdata` scope is enough for. Cannot be combined with `driveId`
+     */
+    space?: 'drive' | 'appDataFolder';
 }
 
+const DEFAULT_FILE_FIELDS = 'id,name,mimeType,parents,modifiedTime,md5Checksum';
+const MAX_PAGE_SIZE = 1000;
+
 const DEFAULT_BASE_URL = 'https://www.googleapis.com/drive/v3/files';
 const DEFAULT_UPLOAD_URL = 'https://www.googleapis.com/upload/drive/v3/files';
 
+const DEFAULT_RETRY: Required<RetryOptions> = {
+    maxAttempts: 5,
+    baseDelayMs: 500,
+    maxDelayMs: 32000,
+    jitter: 0.5,
+    retryableReasons: ['rateLimitExceeded', 'userRateLimitExceeded', 'backendError', 'internalError']
+};
+
+/** HTTP statuses that are always worth another attempt */
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+/** How many file IDs are reserved per generateIds call */
+const ID_POOL_SIZE = 10;
+
+const DEFAULT_RESUMABLE_THRESHOLD = 5 * 1024 * 1024;
+/** Drive requires every chunk except the last to be a multiple of 256 KiB */
+const UPLOAD_CHUNK_UNIT = 256 * 1024;
+const DEFAULT_UPLOAD_CHUNK_SIZE = 4 * UPLOAD_CHUNK_UNIT;
+
+interface FetchOptions {
+    /** Non-2xx statuses handed back to the caller instead of thrown (308 for resumable uploads) */
+    okStatuses?: number[];
+    /** Set to false when the caller recovers from failures itself */
+    retry?: boolean;
+}
+
 export class GoogleDriveClient {
-    constructor(private options: DriveClientOptions) { }
+    private retry: Required<RetryOptions>;
+    private resumableThreshold: number;
+    private chunkSize: number;
+    private idPool: string[] = [];
+    private cachedToken: string | null = null;
+    /** In-flight token request, shared by every caller that needs a token meanwhile */
+    private pendingToken: Promise<string> | null = null;
+
+    constructor(private options: DriveClientOptions) {
+        if (options.driveId && options.space === 'appDataFolder') {
+            throw new Error('The appDataFolder space cannot be combined with a Shared Drive (driveId)');
+        }
+        this.retry = { ...DEFAULT_RETRY, ...options.retry };
+        this.resumableThreshold = options.resumableThreshold ?? DEFAULT_RESUMABLE_THRESHOLD;
+        const chunkSize = options.uploadChunkSize || DEFAULT_UPLOAD_CHUNK_SIZE;
+        this.chunkSize = Math.max(UPLOAD_CHUNK_UNIT, chunkSize - (chunkSize % UPLOAD_CHUNK_UNIT));
+    }
 
     private async getToken(): Promise<string> {
-        if (typeof this.options.accessToken === 'function') {
-            return await this.options.accessToken();
+        const provider = this.options.accessToken;
+        if (typeof provider !== 'function') return provider;
+        if (this.cachedToken) return this.cachedToken;
+
+        if (!this.pendingToken) {
+            this.pendingToken = (async () => {
+                try {
+                    this.cachedToken = await provider();
+                    return this.cachedToken;
+                } finally {
+                    this.pendingToken = null;
+                }
+            })();
         }
-        return this.options.accessToken;
+        return this.pendingToken;
     }
 
-    private async fetch(url: string, init: RequestInit): Promise<Response> {
+    /** Drop `token` so the next request asks the provider again. A token refreshed meanwhile is kept */
+    private invalidateToken(token: string): void {
+        if (this.cachedToken === token) this.cachedToken = null;
+    }
+
+    private async authFailed(err: any): Promise<void> {
+        if (!this.options.onAuthError) return;
+        try {
+            await this.options.onAuthError(err);
+        } catch (hookErr) {
+            console.log('[GoogleDriveClient] onAuthError hook failed', hookErr);
+        }
+    }
+
+    /**
+     * Perform a request, retrying transient failures with exponential backoff.
+     * A 401 refreshes the token and replays the request once.
+     * The error of the last attempt is thrown, with `attempts` set on it.
+     */
+    private async fetch(url: string, init: RequestInit, opts: FetchOptions = {}): Promise<Response> {
+        const maxAttempts = opts.retry === false ? 1 : this.retry.maxAttempts;
+        let attempt = 1;
+        let refreshed = false;
+        while (true) {
+            let token: string;
+            try {
+                token = await this.getToken();
+            } catch (err: any) {
+                await this.authFailed(err);
+                throw err;
+            }
+
+            try {
+                return await this.fetchOnce(url, init, token, opts.okStatuses);
+            } catch (err: any) {
+                err.attempts = attempt;
+                if (err.status === 401) {
+                    if (refreshed || typeof this.options.accessToken !== 'function') {
+                        await this.authFailed(err);
+                        throw err;
+                    }
+                    console.log(`[GoogleDriveClient] ${err.method} 401 - refreshing access token`);
+                    refreshed = true;
+                    this.invalidateToken(token);
+                    continue;
+                }
+                if (attempt >= maxAttempts || !this.isRetryable(err)) throw err;
+
+                const delay = this.retryDelay(attempt, err.retryAfterMs);
+                console.log(`[GoogleDriveClient] ${err.method} ${err.status || err.code} - retrying in ${delay}ms (attempt ${attempt + 1}/${maxAttempts})`);
+                await sleep(delay);
+                attempt++;
+            }
+        }
+    }
+
+    private isRetryable(err: any): boolean {
+        if (err.code === 'network_error') return true;
+        if (RETRYABLE_STATUSES.includes(err.status)) return true;
+        return err.status === 403 && this.retry.retryableReasons.includes(err.code);
+    }
+
+    /** Backoff for the given attempt; the server's Retry-After wins when it asks for longer */
+    private retryDelay(attempt: number, retryAfterMs?: number): number {
+        const exp = Math.min(this.retry.maxDelayMs, this.retry.baseDelayMs * Math.pow(2, attempt - 1));
+        const spread = exp * this.retry.jitter;
+        const delay = Math.round(exp - spread + Math.random() * spread * 2);
+        return retryAfterMs !== undefined ? Math.max(delay, retryAfterMs) : delay;
+    }
+
+    private async fetchOnce(url: string, init: RequestInit, token: string, okStatuses: number[] = []): Promise<Response> {
         const method = init.method || 'GET';
-        const token = await this.getToken();
         const validHeaders: Record<string, string> = {
             'Authorization': `Bearer ${token}`
         };
@@ -49,7 +238,7 @@ export class GoogleDriveClient {
             throw err;
         }
 
-        if (!res.ok) {
+        if (!res.ok && !okStatuses.includes(res.status)) {
             const text = await res.text();
             let errorMsg = `Drive API Error: ${res.status} ${res.statusText} (${method} ${url})`;
             let reason = res.statusText;
@@ -73,6 +262,8 @@ export class GoogleDriveClient {
             err.code = reason;
             err.url = url;
             err.method = method;
+            const retryAfter = parseRetryAfter(res.headers.get('Retry-After'));
+            if (retryAfter !== undefined) err.retryAfterMs = retryAfter;
             throw err;
         }
         return res;
@@ -86,26 +277,116 @@ export class GoogleDriveClient {
         return this.options.uploadUrl || DEFAULT_UPLOAD_URL;
     }
 
-    async listFiles(q: string): Promise<DriveFile[]> {
-        const params = new URLSearchParams({
-            q,
-            fields: 'files(id,name,mimeType,parents,modifiedTime,md5Checksum)'
-        });
-        // FIX: URLSearchParams uses '+', but Drive API is safer with '%20'
-        const queryString = params.toString().replace(/\+/g, '%20');
+    /** The changes collection lives next to the files collection */
+    private get changesUrl(): string {
+        return this.baseUrl.replace(/\/files$/, '/changes');
+    }
+
+    /**
+     * Parameters every request sends so Shared Drive items are found; listings and
+     * the changes feed are also scoped to `driveId` or the app data space
+     */
+    private driveParams(listing: boolean = false): Record<string, string> {
+        const params: Record<string, string> = { supportsAllDrives: 'true' };
+        if (listing && this.options.driveId) {
+            params.driveId = this.options.driveId;
+            params.includeItemsFromAllDrives = 'true';
+        } else if (listing && this.options.space === 'appDataFolder') {
+            params.spaces = 'appDataFolder';
+        }
+        return params;
+    }
+
+    /** Parent of files created without one: the Shared Drive root or the app data folder */
+    private get defaultParents(): string[] | undefined {
+        if (this.options.driveId) return [this.options.driveId];
+        if (this.options.space === 'appDataFolder') return ['appDataFolder'];
+        return undefined;
+    }
+
+    /** Query string of `params` plus the Shared Drive parameters */
+    private query(params: Record<string, string>, listing: boolean = false): string {
+        // URLSearchParams uses '+', but Drive API is safer with '%20'
+        return new URLSearchParams({ ...params, ...this.driveParams(listing) }).toString().replace(/\+/g, '%20');
+    }
+
+    /** Digest of the current access token, to recognize it later without revealing it */
+    async tokenDigest(): Promise<string> {
+        return digestOf(new TextEncoder().encode(await this.getToken()));
+    }
+
+    /**
+     * Permission ID of the user the token belongs to (about.get), stable across tokens.
+     * Tried once: callers fall back to what they knew when Drive is unreachable.
+     */
+    async getAccountId(): Promise<string> {
+        const url = `${this.baseUrl.replace(/\/files$/, '/about')}?fields=${encodeURIComponent('user(permissionId)')}`;
+        const res = await this.fetch(url, { method: 'GET' }, { retry: false });
+        const data = await res.json();
+        return data.user.permissionId;
+    }
 
-        console.log(`[GoogleDriveClient] listFiles query: ${queryString}`);
-        const res = await this.fetch(`${this.baseUrl}?${queryString}`, { method: 'GET' });
+    /** Token for "now" in the changes feed (changes.getStartPageToken), which takes no listing parameters */
+    async getStartPageToken(): Promise<string> {
+        const params: Record<string, string> = this.options.driveId ? { driveId: this.options.driveId } : {};
+        const res = await this.fetch(`${this.changesUrl}/startPageToken?${this.query(params)}`, { method: 'GET' });
         const data = await res.json();
-        return data.files || [];
+        return data.startPageToken;
+    }
+
+    /** All changes since `pageToken`, following every page, and the token to continue from */
+    async listChanges(pageToken: string): Promise<{ changes: DriveChange[], newStartPageToken: string }> {
+        const changes: DriveChange[] = [];
+        let token = pageToken;
+        while (true) {
+            const queryString = this.query({
+                pageToken: token,
+                pageSize: '1000',
+                includeRemoved: 'true',
+                fields: 'nextPageToken,newStartPageToken,changes(fileId,removed,file(id,name,mimeType,parents,modifiedTime,md5Checksum,trashed))'
+            }, true);
+            const res = await this.fetch(`${this.changesUrl}?${queryString}`, { method: 'GET' });
+            const data = await res.json();
+            changes.push(...(data.changes || []));
+            if (data.newStartPageToken || !data.nextPageToken) {
+                return { changes, newStartPageToken: data.newStartPageToken || token };
+            }
+            token = data.nextPageToken;
+        }
+    }
+
+    /** Every file matching `q`, following all result pages */
+    async listFiles(q: string, opts: ListFilesOptions = {}): Promise<DriveFile[]> {
+        const files: DriveFile[] = [];
+        for await (const page of this.listFilePages(q, opts)) files.push(...page);
+        return files;
+    }
+
+    /** Files matching `q` one result page at a time, for folders too large to hold in memory */
+    async *listFilePages(q: string, opts: ListFilesOptions = {}): AsyncGenerator<DriveFile[]> {
+        let pageToken: string | undefined;
+        do {
+            const queryString = this.query({
+                q,
+                fields: `nextPageToken,files(${opts.fields || DEFAULT_FILE_FIELDS})`,
+                pageSize: String(Math.min(opts.pageSize || MAX_PAGE_SIZE, MAX_PAGE_SIZE)),
+                ...(opts.orderBy ? { orderBy: opts.orderBy } : {}),
+                ...(pageToken ? { pageToken } : {}),
+                ...(this.options.driveId ? { corpora: 'drive' } : {})
+            }, true);
+
+            console.log(`[GoogleDriveClient] listFiles query: ${queryString}`);
+            const res = await this.fetch(`${this.baseUrl}?${queryString}`, { method: 'GET' });
+            const data = await res.json();
+            yield data.files || [];
+            pageToken = data.nextPageToken;
+        } while (pageToken);
     }
 
     async getFile(fileId: string): Promise<any> {
         // Try getting media
         try {
-            const params = new URLSearchParams({ alt: 'media' });
-            const queryString = params.toString().replace(/\+/g, '%20');
-            const res = await this.fetch(`${this.baseUrl}/${fileId}?${queryString}`, { method: 'GET' });
+            const res = await this.fetch(`${this.baseUrl}/${fileId}?${this.query({ alt: 'media' })}`, { method: 'GET' });
             // Standard fetch handles JSON/Text transparency? 
             // We expect JSON mostly, but sometimes we might want text.
             // PouchDB adapter flow: downloadJson, downloadNdjson
@@ -122,11 +403,28 @@ export class GoogleDriveClient {
         }
     }
 
+    /** Download raw file content (attachments) */
+    async getFileBinary(fileId: string): Promise<Uint8Array> {
+        const res = await this.fetch(`${this.baseUrl}/${fileId}?${this.query({ alt: 'media' })}`, { method: 'GET' });
+        return new Uint8Array(await res.arrayBuffer());
+    }
+
+    /**
+     * Download `length` bytes starting at `offset`. Servers that ignore the
+     * `Range` header answer with the whole file, which is sliced here.
+     */
+    async getFileRange(fileId: string, offset: number, length: number): Promise<Uint8Array> {
+        const res = await this.fetch(`${this.baseUrl}/${fileId}?${this.query({ alt: 'media' })}`, {
+            method: 'GET',
+            headers: { 'Range': `bytes=${offset}-${offset + length - 1}` }
+        });
+        const bytes = new Uint8Array(await res.arrayBuffer());
+        return res.status === 206 ? bytes : bytes.subarray(offset, offset + length);
+    }
+
     // Single metadata get (for etag check)
     async getFileMetadata(fileId: string): Promise<DriveFile> {
-        const params = new URLSearchParams({ fields: 'id,name,mimeType,parents,modifiedTime,md5Checksum' });
-        const queryString = params.toString().replace(/\+/g, '%20');
-        const res = await this.fetch(`${this.baseUrl}/${fileId}?${queryString}`, { method: 'GET' });
+        const res = await this.fetch(`${this.baseUrl}/${fileId}?${this.query({ fields: 'id,name,mimeType,parents,modifiedTime,md5Checksum' })}`, { method: 'GET' });
         const data = await res.json();
         return {
             ...data,
@@ -134,16 +432,35 @@ export class GoogleDriveClient {
         };
     }
 
-    async createFile(name: string, parents: string[] | undefined, mimeType: string, content: string): Promise<{ id: string, etag: string, modifiedTime: string }> {
+    /**
+     * Create a file. The ID is reserved up front, so when a retried upload finds it
+     * already taken, the earlier attempt went through and its file is returned
+     * instead of creating a duplicate.
+     */
+    async createFile(name: string, parents: string[] | undefined, mimeType: string, content: string | Uint8Array): Promise<UploadResult> {
         const metadata = {
+            id: await this.nextFileId(),
             name,
             mimeType,
-            parents
+            // Without parents a file lands in the root of the Shared Drive or the app data folder
+            parents: parents || this.defaultParents
         };
 
+        try {
+            return await this.uploadNewFile(metadata, content, mimeType);
+        } catch (err: any) {
+            if (err.status === 409 && err.attempts > 1) {
+                const existing = await this.getFileMetadata(metadata.id);
+                return { id: existing.id, etag: existing.etag || '', modifiedTime: existing.modifiedTime || '', md5Checksum: existing.md5Checksum };
+            }
+            throw err;
+        }
+    }
+
+    private async uploadNewFile(metadata: any, content: string | Uint8Array, mimeType: string): Promise<UploadResult> {
         // Folders or empty content can use simple metadata-only POST
         if (!content && mimeType === 'application/vnd.google-apps.folder') {
-            const res = await this.fetch(`${this.baseUrl}?fields=id,modifiedTime`, {
+            const res = await this.fetch(`${this.baseUrl}?${this.query({ fields: 'id,modifiedTime' })}`, {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify(metadata)
@@ -152,40 +469,124 @@ export class GoogleDriveClient {
             return {
                 id: data.id,
                 etag: this.extractEtag(res, data),
-                modifiedTime: data.modifiedTime || res.headers.get('Last-Modified') || ''
+                modifiedTime: data.modifiedTime || res.headers.get('Last-Modified') || '',
+                md5Checksum: data.md5Checksum
             };
         }
 
+        const bytes = this.largeContent(content);
+        if (bytes) {
+            return await this.uploadResumable(metadata, bytes, mimeType);
+        }
+
         const multipartBody = this.buildMultipart(metadata, content, mimeType);
 
-        const res = await this.fetch(`${this.uploadUrl}?uploadType=multipart&fields=id,modifiedTime`, {
+        const res = await this.fetch(`${this.uploadUrl}?${this.query({ uploadType: 'multipart', fields: 'id,modifiedTime,md5Checksum' })}`, {
             method: 'POST',
             headers: {
                 'Content-Type': `multipart/related; boundary=${multipartBody.boundary}`
             },
-            body: multipartBody.body
+            body: multipartBody.body as BodyInit
         });
         const data = await res.json();
         return {
             id: data.id,
             etag: this.extractEtag(res, data),
-            modifiedTime: data.modifiedTime || res.headers.get('Last-Modified') || ''
+            modifiedTime: data.modifiedTime || res.headers.get('Last-Modified') || '',
+            md5Checksum: data.md5Checksum
         };
     }
 
-    async updateFile(fileId: string, content: string, expectedEtag?: string): Promise<{ id: string, etag: string, modifiedTime: string }> {
+    /** Content as bytes if it is above the resumable threshold, null otherwise */
+    private largeContent(content: string | Uint8Array): Uint8Array | null {
+        if (typeof content !== 'string') {
+            return content.length > this.resumableThreshold ? content : null;
+        }
+        // A UTF-8 character takes at most 3 bytes per UTF-16 unit; skip encoding small strings
+        if (content.length * 3 <= this.resumableThreshold) return null;
+        const bytes = new TextEncoder().encode(content);
+        return bytes.length > this.resumableThreshold ? bytes : null;
+    }
+
+    /**
+     * Upload through a resumable session, one chunk per request. When a chunk fails,
+     * the session is asked how many bytes it holds and the upload continues from there.
+     */
+    private async uploadResumable(metadata: any, bytes: Uint8Array, mimeType: string): Promise<UploadResult> {
+        const session = await this.fetch(`${this.uploadUrl}?${this.query({ uploadType: 'resumable', fields: 'id,modifiedTime,md5Checksum' })}`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json; charset=UTF-8',
+                'X-Upload-Content-Type': mimeType,
+                'X-Upload-Content-Length': String(bytes.length)
+            },
+            body: JSON.stringify(metadata)
+        });
+        const sessionUrl = session.headers.get('Location');
+        if (!sessionUrl) {
+            throw new Error(`Drive API Error: no resumable session returned for ${metadata.name}`);
+        }
+        console.log(`[GoogleDriveClient] Resumable upload of ${metadata.name} (${bytes.length} bytes)`);
+
+        let offset = 0;
+        let failures = 0;
+        while (true) {
+            const end = Math.min(offset + this.chunkSize, bytes.length);
+            let res: Response;
+            try {
+                res = await this.fetch(sessionUrl, {
+                    method: 'PUT',
+                    headers: { 'Content-Range': `bytes ${offset}-${end - 1}/${bytes.length}` },
+                    body: bytes.subarray(offset, end) as BodyInit
+                }, { okStatuses: [308], retry: false });
+                failures = 0;
+            } catch (err: any) {
+                failures++;
+                if (failures >= this.retry.maxAttempts || !this.isRetryable(err)) throw err;
+                await sleep(this.retryDelay(failures, err.retryAfterMs));
+                res = await this.fetch(sessionUrl, {
+                    method: 'PUT',
+                    headers: { 'Content-Range': `bytes */${bytes.length}` }
+                }, { okStatuses: [308] });
+            }
+
+            if (res.status !== 308) {
+                const data = await res.json();
+                return {
+                    id: data.id,
+                    etag: this.extractEtag(res, data),
+                    modifiedTime: data.modifiedTime || res.headers.get('Last-Modified') || '',
+                    md5Checksum: data.md5Checksum
+                };
+            }
+            offset = acknowledgedBytes(res.headers.get('Range'));
+        }
+    }
+
+    /** Take a file ID from the pool, reserving a new batch with files.generateIds when empty */
+    private async nextFileId(): Promise<string> {
+        if (this.idPool.length === 0) {
+            const res = await this.fetch(`${this.baseUrl}/generateIds?count=${ID_POOL_SIZE}&space=${this.options.space || 'drive'}`, { method: 'GET' });
+            const data = await res.json();
+            this.idPool.push(...(data.ids || []));
+        }
+        return this.idPool.shift()!;
+    }
+
+    async updateFile(fileId: string, content: string | Uint8Array, expectedEtag?: string, mimeType: string = 'application/json'): Promise<UploadResult> {
         // Update content (media) usually, but sometimes meta?
         // In our usage (saveMeta), we update body.
-        const res = await this.fetch(`${this.uploadUrl}/${fileId}?uploadType=media&fields=id,modifiedTime`, {
+        const res = await this.fetch(`${this.uploadUrl}/${fileId}?${this.query({ uploadType: 'media', fields: 'id,modifiedTime,md5Checksum' })}`, {
             method: 'PATCH',
-            headers: expectedEtag ? { 'If-Match': `"${expectedEtag}"`, 'Content-Type': 'application/json' } : { 'Content-Type': 'application/json' },
-            body: content
+            headers: expectedEtag ? { 'If-Match': `"${expectedEtag}"`, 'Content-Type': mimeType } : { 'Content-Type': mimeType },
+            body: content as BodyInit
         });
         const data = await res.json();
         return {
             id: data.id,
             etag: this.extractEtag(res, data),
-            modifiedTime: data.modifiedTime || res.headers.get('Last-Modified') || ''
+            modifiedTime: data.modifiedTime || res.headers.get('Last-Modified') || '',
+            md5Checksum: data.md5Checksum
         };
     }
 
@@ -197,23 +598,63 @@ export class GoogleDriveClient {
         return data.etag || '';
     }
 
+    /** Delete a file for good. In a Shared Drive this takes the organizer role */
     async deleteFile(fileId: string): Promise<void> {
-        await this.fetch(`${this.baseUrl}/${fileId}`, { method: 'DELETE' });
+        await this.fetch(`${this.baseUrl}/${fileId}?${this.query({})}`, { method: 'DELETE' });
     }
 
-    private buildMultipart(metadata: any, content: string, contentType: string): { body: string, boundary: string } {
+    /** Move a file to the trash, which content managers of a Shared Drive may do too */
+    async trashFile(fileId: string): Promise<void> {
+        await this.fetch(`${this.baseUrl}/${fileId}?${this.query({ fields: 'id' })}`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ trashed: true })
+        });
+    }
+
+    private buildMultipart(metadata: any, content: string | Uint8Array, contentType: string): { body: string | Uint8Array, boundary: string } {
         const boundary = '-------' + Math.random().toString(36).substring(2);
         const delimiter = `\r\n--${boundary}\r\n`;
         const closeDelimiter = `\r\n--${boundary}--`;
 
-        const body = delimiter +
+        const head = delimiter +
             'Content-Type: application/json\r\n\r\n' +
             JSON.stringify(metadata) +
             delimiter +
-            `Content-Type: ${contentType}\r\n\r\n` +
-            content +
-            closeDelimiter;
+            `Content-Type: ${contentType}\r\n\r\n`;
+
+        if (typeof content === 'string') {
+            return { body: head + content + closeDelimiter, boundary };
+        }
 
+        // Binary content: splice the raw bytes between the encoded text parts
+        const encoder = new TextEncoder();
+        const headBytes = encoder.encode(head);
+        const tailBytes = encoder.encode(closeDelimiter);
+        const body = new Uint8Array(headBytes.length + content.length + tailBytes.length);
+        body.set(headBytes, 0);
+        body.set(content, headBytes.length);
+        body.set(tailBytes, headBytes.length + content.length);
         return { body, boundary };
     }
 }
+
+/** Retry-After is either a number of seconds or an HTTP date */
+function parseRetryAfter(header: string | null): number | undefined {
+    if (!header) return undefined;
+    const seconds = Number(header);
+    if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(header);
+    if (!isNaN(date)) return Math.max(0, date - Date.now());
+    return undefined;
+}
+
+/** Bytes Drive holds for a resumable session, from a 308 `Range: bytes=0-<last>` header */
+function acknowledgedBytes(range: string | null): number {
+    const match = range && range.match(/bytes=0-(\d+)/);
+    return match ? parseInt(match[1], 10) + 1 : 0;
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,28 @@
+/**
+ * Gzip codec for stored files. Uses `CompressionStream` where available
+ * (browsers, Node 18+) and falls back to zlib in older Node versions.
+ */
+
+/** Global streams for environments that have them */
+declare const CompressionStream: any;
+declare const DecompressionStream: any;
+
+/** Whether `bytes` starts with the gzip magic number */
+export function isGzip(bytes: Uint8Array): boolean {
+    return bytes.length > 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+}
+
+export async function gzip(bytes: Uint8Array): Promise<Uint8Array> {
+    if (typeof CompressionStream !== 'undefined') return pipe(bytes, new CompressionStream('gzip'));
+    return new Uint8Array(require('zlib').gzipSync(bytes));
+}
+
+export async function gunzip(bytes: Uint8Array): Promise<Uint8Array> {
+    if (typeof DecompressionStream !== 'undefined') return pipe(bytes, new DecompressionStream('gzip'));
+    return new Uint8Array(require('zlib').gunzipSync(bytes));
+}
+
+async function pipe(bytes: Uint8Array, transform: any): Promise<Uint8Array> {
+    const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(transform);
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
@@ -6,14 +6,171 @@ import {
     MetaData,
     IndexEntry,
     FilePointer,
-    LegacySnapshotData
+    LegacySnapshotData,
+    PollingStatus,
+    SnapshotChunkInfo,
+    RevTreePath,
+    EncryptionHeader,
+    FileChecksum,
+    CheckProblem,
+    CheckReport,
+    GarbageCollectionReport,
+    DatabaseFile,
+    DatabaseFileKind,
+    MangoIndexData,
+    MangoIndexInfo,
+    ViewIndexData,
+    ViewIndexInfo,
+    LocalCacheStore
 } from './types';
 import { LRUCache } from './cache';
-import { GoogleDriveClient } from './client';
+import { DriveFile, GoogleDriveClient } from './client';
+import { DriveChangeFeed } from './changes';
+import { attachmentFileName, base64ToBytes, bytesToBase64, collectDigests, digestOf, isAttachmentFileName, matchesDigest } from './attachments';
+import { ByteRange, decodeUtf8, packNdjson, packSnapshotChunk } from './packing';
+import { CacheCipher, CachedState, LocalCache, createLocalCacheStore } from './localcache';
+import { Keyring, keyRequiredError, notEncryptedError, wrongKeyError } from './encryption';
+import { gunzip, gzip, isGzip } from './compression';
+import { massageSelector } from 'pouchdb-selector-core';
+import {
+    MangoIndexDefinition,
+    applyQuery,
+    designDocId,
+    indexDefinition,
+    indexNotFoundError,
+    indexRow,
+    isIndexable,
+    matchesIndexedFields,
+    queryError,
+    sameDefinition,
+    selectIndex
+} from './mango';
+import { ViewDefinition, compileMap, missingViewError, queryRows, sortedRows, viewSignature } from './views';
+import {
+    collectConflicts,
+    collectLeaves,
+    isLeaf,
+    mergeRevTree,
+    parseRev,
+    pathFromHistory,
+    removeLeaf,
+    singleRevTree
+} from './revtree';
 
 const DEFAULT_COMPACTION_THRESHOLD = 100; // entries
 const DEFAULT_SIZE_THRESHOLD = 1024 * 1024; // 1MB
 const DEFAULT_CACHE_SIZE = 1000; // Number of docs
+const DEFAULT_SNAPSHOT_CHUNK_SIZE = 1024 * 1024; // 1MB per snapshot-data chunk
+const DEFAULT_POLLING_BACKOFF = 10; // Idle polling slows down to this many times pollingIntervalMs
+const DEFAULT_MAX_BATCH_SIZE = 100; // Changes per coalesced commit
+const DEFAULT_GC_GRACE_PERIOD = 60 * 60 * 1000; // Orphans younger than 1 hour may belong to writes in flight
+const GC_PREFIXES = ['changes-', 'snapshot-', 'mango-index-', 'view-index-']; // Data files GC may delete, besides attachment blobs
+const PENDING_LOCATION = 'PENDING_OUTBOX'; // Body lives in the offline outbox
+const LAST_ACCOUNT_KEY = 'last-account'; // Local cache entry: the account of the last token seen online
+// Failures that mean Drive could not be reached, as opposed to a rejected write
+const CONNECTIVITY_STATUSES = [408, 429, 500, 502, 503, 504];
+
+/** A stored file whose content no longer matches the checksums recorded at upload */
+function corruptedFileError(fileId: string, reason: string): Error {
+    const err: any = new Error(`File ${fileId} is corrupted: ${reason}`);
+    err.status = 422;
+    err.name = 'corrupted_file';
+    err.code = 'corrupted_file';
+    err.fileId = fileId;
+    return err;
+}
+
+const FILE_KINDS: [string, DatabaseFileKind][] = [
+    ['changes-', 'change_log'],
+    ['snapshot-index-', 'snapshot_index'],
+    // Chunks, and single-file snapshots written before chunking
+    ['snapshot-', 'snapshot_data'],
+    ['attachment-', 'attachment'],
+    ['mango-index-', 'mango_index'],
+    ['view-index-', 'view_index']
+];
+
+function fileKind(name: string): DatabaseFileKind {
+    if (name === '_meta.json') return 'meta';
+    if (name === '_local_docs.json') return 'local_docs';
+    const match = FILE_KINDS.find(([prefix]) => name.startsWith(prefix));
+    return match ? match[1] : 'other';
+}
+
+/** A purge of a document or revision the index does not have as a leaf */
+function purgeError(status: number, name: string, message: string): Error {
+    const err: any = new Error(message);
+    err.status = status;
+    err.name = name;
+    return err;
+}
+
+// Key problems are configuration errors, not inconsistencies to report or repair
+const ENCRYPTION_ERRORS = ['wrong_encryption_key', 'encryption_key_required', 'database_not_encrypted'];
+
+/** Whether parsed file content looks like a change log (NDJSON lines or a single line) */
+function isChangeLog(content: any): boolean {
+    const isChange = (c: any) => !!c && typeof c.id === 'string' && typeof c.seq === 'number';
+    return Array.isArray(content) ? content.every(isChange) : isChange(content);
+}
+
+/** One caller's changes waiting in a coalesced write batch */
+interface BatchedWrite {
+    changes: ChangeEntry[];
+    resolve: () => void;
+    reject: (err: any) => void;
+}
+
+/** In-memory rows of a Mango index or view, and the file and seq they started from */
+interface RowIndexState<T> {
+    fileId: string;
+    seq: number;
+    rows: Record<string, T>;
+}
+
+/** A rewritten Mango index or view file; a null `info` drops the entry */
+interface IndexFileUpdate<T extends { fileId: string }> {
+    previous: T;
+    info: T | null;
+}
+
+/**
+ * Apply rewritten index files to the list in the latest meta. Entries created,
+ * replaced or deleted meanwhile keep what the other client wrote. Returns the
+ * new list and the files nothing references anymore.
+ */
+function swapIndexFiles<T extends { fileId: string }>(latest: T[] | undefined, updates: IndexFileUpdate<T>[]): { list: T[] | undefined, unused: string[] } {
+    if (!latest) return { list: undefined, unused: updates.flatMap(u => u.info ? [u.info.fileId] : []) };
+    const unused: string[] = [];
+    const list: T[] = [];
+    for (const entry of latest) {
+        const update = updates.find(u => u.previous.fileId === entry.fileId);
+        if (!update) {
+            list.push(entry);
+            continue;
+        }
+        unused.push(entry.fileId);
+        if (update.info) list.push(update.info);
+    }
+    for (const update of updates) {
+        if (update.info && !list.includes(update.info)) unused.push(update.info.fileId);
+    }
+    return { list, unused };
+}
+
+/** Row function of a view: the pairs a doc emits, or null when it emits none */
+function emitter(view: ViewDefinition): (doc: any) => [any, any][] | null {
+    const map = compileMap(view.map);
+    return doc => {
+        const emitted = map(doc);
+        return emitted.length > 0 ? emitted : null;
+    };
+}
+
+/** Global navigator/event target for browser online state */
+declare const navigator: any;
+declare const addEventListener: any;
+declare const removeEventListener: any;
 
 /**
  * DriveHandler - Lazy Loading Implementation
@@ -23,10 +180,14 @@ const DEFAULT_CACHE_SIZE = 1000; // Number of docs
  *   ├── _meta.json         
  *   ├── snapshot-index.json  # Map<DocId, IndexEntry>
  *   ├── snapshot-data.json   # Map<DocId, DocBody>
- *   └── changes-*.ndjson     # Append logs
+ *   ├── changes-*.ndjson     # Append logs
+ *   ├── mango-index-*.json   # Mango index rows (db.createIndex)
+ *   ├── view-index-*.json    # Map/reduce view rows (db.query)
+ *   └── attachment-<sha256>  # Attachment blobs, shared by digest
  */
 export class DriveHandler {
     private client: GoogleDriveClient;
+    private clientOptions: GoogleDriveAdapterOptions;
     private options: GoogleDriveAdapterOptions;
     private folderId: string | null = null;
     private folderName: string;
@@ -54,20 +215,61 @@ export class DriveHandler {
     // Document Body Cache
     private docCache: LRUCache<string, any>;
 
+    // Offline outbox: changes accepted locally and not yet committed to Drive, oldest first
     private pendingChanges: ChangeEntry[] = [];
+    private flushingPromise: Promise<void> | null = null;
+    // Write coalescing: the batch being collected, and the chain committing earlier batches in order
+    private writeBatch: { writers: BatchedWrite[], size: number, newEdits: boolean, timer: ReturnType<typeof setTimeout> } | null = null;
+    private batchCommits: Promise<void> = Promise.resolve();
+    private writeCoalesceMs: number;
+    private maxBatchSize: number;
     private currentLogSizeEstimate: number = 0;
 
     private listeners: ((docs: Record<string, any>) => void)[] = [];
-    private pollingInterval: NodeJS.Timeout | null = null;
+    private pollingTimer: ReturnType<typeof setTimeout> | null = null;
+    private pollingStopped: boolean = false;
+    private pollingPaused: boolean = false;
+    private pollIntervalMs: number | null = null;
+    private nextPollAt: number = 0;
+    private lastPollAt: number | null = null;
+    private onlineListener: (() => void) | null = null;
     private loadingPromise: Promise<void> | null = null;
+    private openingPromise: Promise<void> | null = null;
     private isPollingActive: boolean = false;
+    private changeFeed: DriveChangeFeed | null = null;
+    private unwatchChanges: (() => void) | null = null;
+    private remoteMetaChanged: boolean = false;
     private fileCache: LRUCache<string, any>;
     private processedLogIds: Set<string> = new Set();
     private currentSnapshotIndexId: string | null = null;
+    // Entries as written by the current snapshot index; an index entry that is no longer identical has changed since
+    private snapshotEntries: Record<string, IndexEntry> = {};
+    private snapshotChunks: SnapshotChunkInfo[] = [];
+    private snapshotChunkSize: number;
     private debug: boolean = false;
     private isCompacting: boolean = false;
     private pendingDownloads: Map<string, Promise<any>> = new Map();
     private pendingFinds: Map<string, Promise<any>> = new Map();
+    // Attachment blobs: digest -> Drive file ID
+    private attachmentFiles: Map<string, string> = new Map();
+    private localCache: LocalCache | null = null;
+    private localCacheStore: LocalCacheStore | null;
+    private pendingLocalCache: Promise<LocalCache | null> | null = null;
+    // The folder was resolved from the options; one restored from the local cache was not yet
+    private folderVerified: boolean = false;
+    // Opened from the local cache and not yet reconciled with Drive
+    private servingFromCache: boolean = false;
+    // Data files the changes feed reported with a different md5 than recorded at upload
+    private changedFiles: Set<string> = new Set();
+    // Drive's md5Checksum of files, as last seen in a listing or the changes feed
+    private remoteMd5: Map<string, string> = new Map();
+    // Encrypted databases: the header of `_meta.json` and the keys derived for its salt
+    private encryptionHeader: EncryptionHeader | null = null;
+    /** Rows of Mango indexes in use, by `ddoc/name`, possibly newer than their file */
+    private mangoIndexes: Map<string, RowIndexState<any[]>> = new Map();
+    /** Rows of views in use, by `ddoc/view`, possibly newer than their file */
+    private viewIndexes: Map<string, RowIndexState<[any, any][]> & { signature: string }> = new Map();
+    private keyringPromise: Promise<Keyring> | null = null;
 
     private log(...args: any[]) {
         console.log(`[googledrive-drive] [${this.meta.dbName}]`, ...args);
@@ -100,12 +302,16 @@ export class DriveHandler {
             clientOptions.uploadUrl = testUpload;
         }
         this.client = new GoogleDriveClient(clientOptions);
+        this.clientOptions = clientOptions;
         this.options = options;
         this.folderId = options.folderId || null;
         this.folderName = options.folderName || dbName;
         this.parents = options.parents || [];
         this.compactionThreshold = options.compactionThreshold || DEFAULT_COMPACTION_THRESHOLD;
         this.compactionSizeThreshold = options.compactionSizeThreshold || DEFAULT_SIZE_THRESHOLD;
+        this.snapshotChunkSize = options.snapshotChunkSize || DEFAULT_SNAPSHOT_CHUNK_SIZE;
+        this.writeCoalesceMs = options.writeCoalesceMs || 0;
+        this.maxBatchSize = options.maxBatchSize || DEFAULT_MAX_BATCH_SIZE;
         this.meta.dbName = dbName;
         this.debug = !!options.debug;
 
@@ -113,6 +319,8 @@ export class DriveHandler {
 
         this.fileCache = new LRUCache(100); // Cache for last 100 files
 
+        this.localCacheStore = createLocalCacheStore(options);
+
 
         // Polling will be started in load() after folderId is resolved
     }
@@ -122,6 +330,173 @@ export class DriveHandler {
         return this.meta.seq;
     }
 
+    /**
+     * Open the database. With a local cache holding state for it, that state is
+     * served right away and Drive is reconciled in the background; otherwise
+     * this is `load()`.
+     */
+    open(): Promise<void> {
+        if (!this.openingPromise) this.openingPromise = this.openFromCache();
+        return this.openingPromise;
+    }
+
+    private async openFromCache(): Promise<void> {
+        let state: CachedState | null = null;
+        const localCache = await this.openLocalCache();
+        if (localCache) {
+            try {
+                state = await localCache.loadState();
+                this.pendingChanges = await localCache.loadOutbox();
+            } catch (e) {
+                this.log('Failed to read local cache', e);
+            }
+        }
+        if (!state || (this.options.folderId && state.folderId !== this.options.folderId)) {
+            return this.load();
+        }
+
+        this.restoreState(state);
+        if (this.encrypted) {
+            if (!state.encryption) throw notEncryptedError();
+            if (!(await this.getKeyring()).matches(state.encryption.keyChecks)) throw wrongKeyError();
+        }
+        this.applyPendingChanges();
+        this.servingFromCache = true;
+        this.log('Opened from local cache', { savedAt: state.savedAt, seq: state.meta.seq });
+        // Polling keeps retrying the reconcile while it fails (e.g. offline)
+        this.startPolling();
+        this.load().catch(e => this.log('Reconcile with Drive failed, serving cached state', e));
+    }
+
+    /** The local cache of this database, once the account it belongs to is known */
+    private openLocalCache(): Promise<LocalCache | null> {
+        if (!this.pendingLocalCache) {
+            this.pendingLocalCache = (async () => {
+                const store = this.localCacheStore;
+                if (!store) return null;
+                const namespace = await this.cacheNamespace(store);
+                if (!namespace) return null;
+                this.localCache = new LocalCache(
+                    store,
+                    namespace,
+                    this.options.cacheSize || DEFAULT_CACHE_SIZE,
+                    this.encrypted ? this.cacheCipher() : null
+                );
+                return this.localCache;
+            })();
+        }
+        return this.pendingLocalCache;
+    }
+
+    /**
+     * Cache namespace: the account, the Shared Drive or space and the folder location. Without
+     * an `accountId` option the account is looked up from the token. While Drive is
+     * unreachable it is only known if this token is the last one seen online, so
+     * after switching accounts no other account's cache is served: null disables it.
+     */
+    private async cacheNamespace(store: LocalCacheStore): Promise<string | null> {
+        let account = this.options.accountId;
+        if (!account) {
+            let token: string | null = null;
+            try {
+                token = await this.client.tokenDigest();
+                account = await this.client.getAccountId();
+                await store.set(LAST_ACCOUNT_KEY, { token, account });
+            } catch (e) {
+                const last = await store.get(LAST_ACCOUNT_KEY).catch(() => undefined);
+                if (!token || !last || last.token !== token) {
+                    this.log('Account unknown, local cache disabled for this session', e);
+                    return null;
+                }
+                account = last.account as string;
+            }
+        }
+        const scope = this.options.driveId ? `drive:${this.options.driveId}` : this.options.space || 'drive';
+        const folder = this.options.folderId
+            ? `id:${this.options.folderId}`
+            : `${this.parents.length ? [...this.parents].sort().join(',') : 'root'}/${this.folderName}`;
+        return `${account}/${scope}/${folder}`;
+    }
+
+    /** Drop all state of the folder restored from the local cache */
+    private forgetFolder(): void {
+        this.meta = { seq: 0, changeLogIds: [], snapshotIndexId: null, lastCompaction: null, dbName: this.meta.dbName };
+        this.metaEtag = null;
+        this.metaMd5 = null;
+        this.metaModifiedTime = null;
+        this.localDocsEtag = null;
+        this.currentSnapshotIndexId = null;
+        this.index = {};
+        this.snapshotEntries = {};
+        this.snapshotChunks = [];
+        this.processedLogIds.clear();
+        this.encryptionHeader = null;
+        this.keyringPromise = null;
+        this.docCache.clear();
+        this.fileCache.clear();
+        this.attachmentFiles.clear();
+        this.remoteMd5.clear();
+        this.changedFiles.clear();
+        this.mangoIndexes.clear();
+        this.viewIndexes.clear();
+    }
+
+    private restoreState(state: CachedState): void {
+        this.folderId = state.folderId;
+        this.meta = state.meta;
+        this.metaEtag = state.metaEtag;
+        this.metaMd5 = state.metaMd5;
+        this.metaModifiedTime = state.metaModifiedTime;
+        this.localDocsEtag = state.localDocsEtag;
+        this.currentSnapshotIndexId = state.currentSnapshotIndexId;
+        this.index = state.index;
+        this.processedLogIds = new Set(state.processedLogIds);
+        this.snapshotChunks = state.snapshotChunks;
+        this.encryptionHeader = state.encryption || null;
+
+        // Entry identity marks docs unchanged since the snapshot; rebuild it
+        const changed = new Set(state.changedSinceSnapshot);
+        this.snapshotEntries = {};
+        for (const [id, entry] of Object.entries(this.index)) {
+            if (!changed.has(id)) this.snapshotEntries[id] = entry;
+        }
+    }
+
+    /** State for the local cache; null while a load is rebuilding it */
+    private cachedState(): CachedState | null {
+        if (this.loadingPromise || !this.folderId) return null;
+        return {
+            folderId: this.folderId,
+            meta: this.meta,
+            metaEtag: this.metaEtag,
+            metaMd5: this.metaMd5,
+            metaModifiedTime: this.metaModifiedTime,
+            localDocsEtag: this.localDocsEtag,
+            currentSnapshotIndexId: this.currentSnapshotIndexId,
+            index: this.index,
+            processedLogIds: [...this.processedLogIds],
+            snapshotChunks: this.snapshotChunks,
+            encryption: this.encryptionHeader,
+            changedSinceSnapshot: Object.keys(this.index).filter(id => this.index[id] !== this.snapshotEntries[id]),
+            savedAt: Date.now()
+        };
+    }
+
+    private persistState(): void {
+        if (!this.localCache) return;
+        this.localCache.saveState(() => this.cachedState())
+            .catch(e => this.log('Failed to update local cache', e));
+    }
+
+    /** Keep a body in memory and, with a local cache, on disk */
+    private rememberBody(id: string, rev: string, doc: any): void {
+        // The in-memory cache holds winners only; a losing conflict leaves the winner cached
+        if (this.index[id]?.rev === rev) this.docCache.put(id, doc);
+        if (!this.localCache) return;
+        this.localCache.putBody(id, rev, doc)
+            .catch(e => this.log('Failed to cache body', id, e));
+    }
+
     /** Load the database (Index Only) */
     async load(): Promise<void> {
         if (this.loadingPromise) return this.loadingPromise;
@@ -129,15 +504,21 @@ export class DriveHandler {
         this.loadingPromise = (async () => {
             try {
                 this.log('Loading database, options', { options: this.options });
-                if (!this.folderId) {
-                    this.folderId = await this.findOrCreateFolder();
+                if (!this.folderId || !this.folderVerified) {
+                    const folderId = this.options.folderId || await this.findOrCreateFolder();
+                    if (this.folderId && this.folderId !== folderId) {
+                        this.log('Cached folder is not the folder of this database, reloading', { cached: this.folderId, folderId });
+                        this.forgetFolder();
+                    }
+                    this.folderId = folderId;
+                    this.folderVerified = true;
                     this.log('Retrieved folder', { folderId: this.folderId });
                 }
 
                 const metaFile = await this.findFile('_meta.json');
                 if (metaFile) {
                     this.log('Retrieved meta file', { fileId: metaFile.fileId });
-                    this.meta = await this.downloadJson(metaFile.fileId, true); // No cache for meta
+                    this.meta = await this.readMeta(metaFile.fileId); // No cache for meta
                     this.metaEtag = metaFile.etag || null;
                     this.metaMd5 = metaFile.md5Checksum || null;
                     this.metaModifiedTime = metaFile.modifiedTime || null;
@@ -153,6 +534,8 @@ export class DriveHandler {
                     });
                     // Compaction occurred or initial load
                     this.index = {};
+                    this.snapshotEntries = {};
+                    this.snapshotChunks = [];
                     this.processedLogIds.clear();
                     this.currentSnapshotIndexId = this.meta.snapshotIndexId;
 
@@ -163,6 +546,8 @@ export class DriveHandler {
                                 this.filesFromLegacySnapshot(snapshotIdx as unknown as LegacySnapshotData);
                             } else {
                                 this.index = snapshotIdx.entries || {};
+                                this.snapshotEntries = { ...this.index };
+                                this.snapshotChunks = snapshotIdx.chunks || this.chunksFromEntries(this.index);
                             }
                         } catch (e) {
                             console.warn('Failed to load snapshot index', e);
@@ -190,7 +575,9 @@ export class DriveHandler {
                         try {
                             const changes = await this.downloadNdjson(id);
                             return { id, changes };
-                        } catch (e) {
+                        } catch (e: any) {
+                            // Skipped logs are retried by the next load, corrupted ones would never recover
+                            if (e.name === 'corrupted_file') throw e;
                             this.log(`Failed to download change log ${id}`, e);
                             return { id, changes: null };
                         }
@@ -206,8 +593,10 @@ export class DriveHandler {
                         let changesArray = Array.isArray(changes) ? (changes as ChangeEntry[]) : [changes as ChangeEntry];
                         this.log('Processing log file', id, 'changes', changesArray.length);
 
-                        for (const change of changesArray) {
-                            this.updateIndex(change, id);
+                        // Logs are written with JSON.stringify, so serializing again yields the line offsets
+                        const { ranges } = packNdjson(changesArray);
+                        changesArray.forEach((change, i) => {
+                            this.updateIndex(change, { fileId: id, ...ranges[i] });
                             if (this.docCache.get(change.id)) {
                                 this.docCache.remove(change.id);
                             }
@@ -217,7 +606,7 @@ export class DriveHandler {
                                 _deleted: !!change.deleted,
                                 seq: change.seq
                             };
-                        }
+                        });
                         this.processedLogIds.add(id);
                     }
 
@@ -246,7 +635,7 @@ export class DriveHandler {
                                     seq: 0, // Local docs don't participate in shared sequences
                                     location: { fileId: this.meta.localDocsId }
                                 };
-                                this.docCache.put(id, doc);
+                                this.rememberBody(id, doc._rev, doc);
                             }
                         }
                     } catch (e) {
@@ -254,18 +643,38 @@ export class DriveHandler {
                     }
                 }
 
-                // 3. Start Polling ...
+                // 2c. Queued offline writes stay visible on top of what Drive has
+                this.applyPendingChanges();
+
+                // 3. Start Polling (once; reloads keep the running schedule)
+                if (this.pollIntervalMs === null) this.startPolling();
+                this.servingFromCache = false;
             } catch (e) {
                 console.error('Failed to load database', e);
                 throw e;
             } finally {
                 this.loadingPromise = null;
             }
+            this.persistState();
         })();
 
         return this.loadingPromise;
     }
 
+    /** Chunk list for indexes written before chunking: every data file a live doc points into */
+    private chunksFromEntries(entries: Record<string, IndexEntry>): SnapshotChunkInfo[] {
+        const byFile: Map<string, Set<string>> = new Map();
+        for (const [id, entry] of Object.entries(entries)) {
+            if (entry.deleted || id.startsWith('_local/')) continue;
+            for (const location of Object.values(this.revLocationsOf(entry))) {
+                if (location.fileId === 'LEGACY_MEMORY') continue;
+                if (!byFile.has(location.fileId)) byFile.set(location.fileId, new Set());
+                byFile.get(location.fileId)!.add(id);
+            }
+        }
+        return [...byFile].map(([fileId, ids]) => ({ fileId, docIds: [...ids], size: 0 }));
+    }
+
     // Migration helper
     private filesFromLegacySnapshot(snapshot: LegacySnapshotData) {
         // Convert Legacy Snapshot (Docs in memory) to Index
@@ -292,9 +701,11 @@ export class DriveHandler {
         if (!entry) return null;
         if (entry.deleted) return null;
 
-        // 1. Check Doc Cache
+        // 1. Check Doc Cache, then the local cache
         const cachedDoc = this.docCache.get(id);
         if (cachedDoc) return cachedDoc;
+        const storedDoc = await this.getStoredBody(id, entry.rev);
+        if (storedDoc) return storedDoc;
 
         // 2. Fetch from Drive (via File Cache)
         if (entry.location.fileId === 'LEGACY_MEMORY') {
@@ -308,24 +719,7 @@ export class DriveHandler {
             return null;
         }
 
-        const fileId = entry.location.fileId;
-        const content = await this.fetchFile(fileId);
-
-        let doc: any = null;
-        if (Array.isArray(content)) {
-            // It's a change log (NDJSON parsed as array)
-            const match = [...content].reverse().find((c: ChangeEntry) => c.id === id);
-            doc = match ? match.doc : null;
-        } else if (content && content.docs) {
-            // It's a snapshot-data chunk
-            doc = content.docs[id];
-        } else if (content && content.id === id && content.doc) {
-            // It's a single ChangeEntry object (parsed from single-line NDJSON)
-            doc = content.doc;
-        } else if (content && (content._id === id || content.id === id)) {
-            // Single doc file or raw doc body
-            doc = content;
-        }
+        const doc = await this.readBody(id, entry.rev, entry.location);
 
         if (doc) {
             // HEAL: Ensure PouchDB core validation doesn't fail due to history corruption
@@ -334,13 +728,95 @@ export class DriveHandler {
                  const start = doc._revisions.start || 1;
                  doc._revisions.ids = doc._revisions.ids.slice(0, start);
             }
-            this.docCache.put(id, doc);
             doc._rev = entry.rev;
+            this.rememberBody(id, entry.rev, doc);
         }
 
         return doc;
     }
 
+    /**
+     * Get the body of a specific leaf revision (winner or conflict).
+     * Deleted leaves are returned as tombstone stubs.
+     */
+    async getRevision(id: string, rev: string): Promise<any | null> {
+        const entry = this.index[id];
+        if (!entry) return null;
+        if (rev === entry.rev && !entry.deleted) return await this.get(id);
+
+        const leaf = collectLeaves(this.revTreeOf(entry)).find(l => l.rev === rev);
+        if (!leaf) return null;
+        if (leaf.deleted) return { _id: id, _rev: rev, _deleted: true };
+
+        const location = this.revLocationsOf(entry)[rev];
+        if (!location) return null;
+        const doc = await this.readBody(id, rev, location);
+        return doc ? { ...doc, _rev: rev } : null;
+    }
+
+    /**
+     * Read one body. Pointers with a byte range fetch just that slice unless the
+     * whole file is cached already; anything unexpected in the slice falls back
+     * to downloading the file.
+     */
+    private async readBody(id: string, rev: string, location: FilePointer): Promise<any | null> {
+        const { fileId, offset, length } = location;
+        if (fileId === PENDING_LOCATION) {
+            const queued = [...this.pendingChanges].reverse().find(c => c.id === id && c.rev === rev);
+            return queued && queued.doc ? { ...queued.doc } : null;
+        }
+        if (offset !== undefined && length && !this.fileCache.get(fileId) && !this.pendingDownloads.has(fileId) && await this.canReadRanges(fileId)) {
+            const bytes = await this.client.getFileRange(fileId, offset, length);
+            const doc = this.parseSlice(bytes, id, rev);
+            if (doc) return doc;
+            this.log('Range read did not match, downloading whole file', fileId, id);
+        }
+        return this.extractDoc(await this.fetchFile(fileId), id, rev);
+    }
+
+    /** Body in a byte slice: a change log line or a bare snapshot body */
+    private parseSlice(bytes: Uint8Array, id: string, rev: string): any | null {
+        try {
+            return this.extractDoc(JSON.parse(decodeUtf8(bytes)), id, rev);
+        } catch (e) {
+            return null;
+        }
+    }
+
+    /** Body from the local cache, kept in memory once found */
+    private async getStoredBody(id: string, rev: string): Promise<any | null> {
+        if (!this.localCache) return null;
+        try {
+            const doc = await this.localCache.getBody(id, rev);
+            if (doc) this.docCache.put(id, doc);
+            return doc;
+        } catch (e) {
+            this.log('Failed to read cached body', id, e);
+            return null;
+        }
+    }
+
+    /** Find the body of `id` at `rev` inside a downloaded file */
+    private extractDoc(content: any, id: string, rev: string): any | null {
+        if (Array.isArray(content)) {
+            // It's a change log (NDJSON parsed as array)
+            const reversed = [...content].reverse();
+            const match = reversed.find((c: ChangeEntry) => c.id === id && c.rev === rev)
+                || reversed.find((c: ChangeEntry) => c.id === id);
+            return match ? match.doc || null : null;
+        } else if (content && content.docs) {
+            // It's a snapshot-data chunk
+            return (content.conflicts && content.conflicts[id] && content.conflicts[id][rev]) || content.docs[id] || null;
+        } else if (content && content.id === id && content.doc) {
+            // It's a single ChangeEntry object (parsed from single-line NDJSON)
+            return content.doc;
+        } else if (content && (content._id === id || content.id === id)) {
+            // Single doc file or raw doc body
+            return content;
+        }
+        return null;
+    }
+
     /** Generic Download with Caching and Parsing */
     private async fetchFile(fileId: string, skipCache: boolean = false): Promise<any> {
         if (!skipCache) {
@@ -362,7 +838,7 @@ export class DriveHandler {
         const downloadPromise = (async () => {
             try {
                 this.log('fetchFile downloading', fileId);
-                const data = await this.client.getFile(fileId);
+                const data = await this.readContent(fileId);
                 let parsed: any;
 
                 if (typeof data === 'string') {
@@ -419,14 +895,14 @@ export class DriveHandler {
             }
 
             // Check cache
-            const cached = this.docCache.get(id);
+            const cached = this.docCache.get(id) || await this.getStoredBody(id, entry.rev);
             if (cached) {
                 results[id] = cached;
                 continue;
             }
 
             // Group by file
-            if (entry.location.fileId === 'LEGACY_MEMORY') {
+            if (entry.location.fileId === 'LEGACY_MEMORY' || entry.location.fileId === PENDING_LOCATION) {
                 // Handle legacy separately
                 const doc = await this.get(id); // fallback
                 results[id] = doc;
@@ -439,30 +915,23 @@ export class DriveHandler {
         // Fetch files
         for (const [fileId, docIds] of Object.entries(byFile)) {
             try {
-                const content = await this.fetchFile(fileId);
+                const extract = await this.fileReader(fileId, docIds);
 
                 for (const docId of docIds) {
-                    let doc = null;
-                    if (Array.isArray(content)) {
-                        const match = [...content].reverse().find((c: ChangeEntry) => c.id === docId);
-                        doc = match ? match.doc : null;
-                    } else if (content && content.docs) {
-                        doc = content.docs[docId];
-                    } else if (content && content.id === docId && content.doc) {
-                        // Single ChangeEntry object
-                        doc = content.doc;
-                    }
+                    const doc = await extract(docId);
 
                     if (doc) {
                         // Add entry.rev to doc just in case
                         if (this.index[docId]) doc._rev = this.index[docId].rev;
-                        this.docCache.put(docId, doc);
+                        this.rememberBody(docId, doc._rev, doc);
                         results[docId] = doc;
                     } else {
                         results[docId] = null;
                     }
                 }
-            } catch (e) {
+            } catch (e: any) {
+                // Wrong data must not pass for missing docs
+                if (e.name === 'corrupted_file') throw e;
                 console.error(`Failed to fetch file ${fileId} for docs ${docIds}`, e);
                 // Return nulls
                 docIds.forEach(id => results[id] = null);
@@ -472,9 +941,97 @@ export class DriveHandler {
         return ids.map(id => results[id]);
     }
 
+    /**
+     * Fetch what is needed to read `docIds` from one file: a single range spanning
+     * their slices when every pointer has one, the whole file otherwise.
+     */
+    private async fileReader(fileId: string, docIds: string[]): Promise<(id: string) => Promise<any | null>> {
+        const entries: Record<string, IndexEntry> = {};
+        for (const id of docIds) entries[id] = this.index[id];
+        const locations = docIds.map(id => entries[id].location);
+        const ranged = locations.every(l => l.offset !== undefined && l.length);
+        if (!ranged || this.fileCache.get(fileId) || this.pendingDownloads.has(fileId) || !await this.canReadRanges(fileId)) {
+            const content = await this.fetchFile(fileId);
+            return async (id) => this.extractDoc(content, id, entries[id].rev);
+        }
+
+        const start = Math.min(...locations.map(l => l.offset!));
+        const end = Math.max(...locations.map(l => l.offset! + l.length!));
+        const span = await this.client.getFileRange(fileId, start, end - start);
+        return async (id) => {
+            const { rev, location } = entries[id];
+            const from = location.offset! - start;
+            const doc = this.parseSlice(span.subarray(from, from + location.length!), id, rev);
+            return doc || this.readBody(id, rev, { fileId });
+        };
+    }
+
+    /** Upload an attachment blob unless a blob with the same digest already exists */
+    async saveAttachment(digest: string, bytes: Uint8Array, contentType: string): Promise<void> {
+        if (await this.findAttachmentFile(digest, true)) return;
+        const [name] = await this.attachmentNames(digest);
+        // Blobs are often compressed already (images, archives), so they are never gzipped
+        const res = await this.client.createFile(
+            name,
+            [this.folderId!],
+            this.mimeType(contentType || 'application/octet-stream', false),
+            await this.encode(bytes, false)
+        );
+        this.attachmentFiles.set(digest, res.id);
+    }
+
+    /** Download an attachment blob by digest, verified against it */
+    async getAttachmentData(digest: string): Promise<Uint8Array | null> {
+        const fileId = await this.findAttachmentFile(digest);
+        if (!fileId) return null;
+        const bytes = await this.client.getFileBinary(fileId);
+        const content = this.encrypted ? await this.decryptFile(fileId, bytes) : bytes;
+        if (!await matchesDigest(content, digest)) throw corruptedFileError(fileId, 'attachment digest mismatch');
+        return content;
+    }
+
+    /**
+     * Blob names of `digest`, current one first: the digest itself, or when
+     * encrypted a keyed hash of it per key, so names do not reveal content.
+     */
+    private async attachmentNames(digest: string): Promise<string[]> {
+        if (!this.encrypted) return [attachmentFileName(digest)];
+        const keyring = await this.getKeyring();
+        return [await keyring.attachmentName(digest), ...await keyring.previousAttachmentNames(digest)];
+    }
+
+    private async findAttachmentFile(digest: string, currentKeyOnly: boolean = false): Promise<string | null> {
+        const known = this.attachmentFiles.get(digest);
+        if (known) return known;
+
+        const names = await this.attachmentNames(digest);
+        for (let i = 0; i < (currentKeyOnly ? 1 : names.length); i++) {
+            const q = `name = '${names[i]}' and '${this.folderId}' in parents and trashed = false`;
+            const files = await this.client.listFiles(q);
+            if (files.length === 0) continue;
+            // Only blobs under the current key are remembered, so key rotation still re-uploads the others
+            if (i === 0) this.attachmentFiles.set(digest, files[0].id);
+            return files[0].id;
+        }
+        return null;
+    }
+
+    /** Re-upload a blob stored under a previous key with the current key */
+    private async reencryptAttachment(digest: string): Promise<void> {
+        if (await this.findAttachmentFile(digest, true)) return;
+        const bytes = await this.getAttachmentData(digest);
+        if (!bytes) {
+            this.log('Attachment missing during key rotation', digest);
+            return;
+        }
+        await this.saveAttachment(digest, bytes, 'application/octet-stream');
+    }
+
     /** Return all keys in Index */
     async getIndexKeys(): Promise<string[]> {
-        if (this.loadingPromise) await this.loadingPromise;
+        // A database opened from the local cache answers from it while reconciling
+        if (this.openingPromise) await this.openingPromise;
+        if (this.loadingPromise && !this.servingFromCache) await this.loadingPromise;
         return Object.keys(this.index);
     }
 
@@ -483,16 +1040,31 @@ export class DriveHandler {
         return this.index[id];
     }
 
+    /** Revision tree of a document, or null if the ID is unknown */
+    getRevTree(id: string): RevTreePath[] | null {
+        const entry = this.index[id];
+        return entry ? this.revTreeOf(entry) : null;
+    }
+
+    private revTreeOf(entry: IndexEntry): RevTreePath[] {
+        return entry.revTree || singleRevTree(entry.rev, !!entry.deleted);
+    }
+
+    private revLocationsOf(entry: IndexEntry): Record<string, FilePointer> {
+        return entry.revLocations || { [entry.rev]: entry.location };
+    }
+
     /** Single change wrapper */
     async appendChange(change: ChangeEntry): Promise<void> {
         return this.appendChanges([change]);
     }
 
-    /** Append changes with OCC */
-    async appendChanges(changes: ChangeEntry[]): Promise<void> {
-        const MAX_RETRIES = 5;
-        let attemptNum = 0;
-
+    /**
+     * Append changes with OCC.
+     * `newEdits: false` marks replicated revisions, which are grafted into the
+     * rev tree instead of being checked for conflicts.
+     */
+    async appendChanges(changes: ChangeEntry[], opts: { newEdits?: boolean } = {}): Promise<void> {
         const local = changes.filter(c => c.id.startsWith('_local/'));
         const remote = changes.filter(c => !c.id.startsWith('_local/'));
 
@@ -503,6 +1075,125 @@ export class DriveHandler {
 
         // Handle Remote Docs (App Log)
         if (remote.length === 0) return;
+        if (this.writeCoalesceMs > 0) return this.coalesceChanges(remote, opts);
+        return this.appendRemoteChanges(remote, opts);
+    }
+
+    /**
+     * Remove leaf `rev` of a document for good, along with the branch only it uses.
+     * The purge is a change log entry, so every client replaying the log drops the
+     * branch too; compaction then leaves its bodies out of the snapshot.
+     */
+    async purge(id: string, rev: string): Promise<{ ok: true, deletedRevs: string[] }> {
+        await this.getIndexKeys();
+        const entry = id.startsWith('_local/') ? undefined : this.index[id];
+        if (!entry) throw purgeError(404, 'not_found', 'missing');
+        const { removed } = removeLeaf(this.revTreeOf(entry), rev);
+        if (removed.length === 0) throw purgeError(400, 'bad_request', 'The requested revision is not a leaf');
+
+        await this.appendChanges([{ seq: this.getNextSeq(), id, rev, purged: true, timestamp: Date.now() }], { newEdits: false });
+        this.log('Purged', id, removed);
+        return { ok: true, deletedRevs: removed };
+    }
+
+    private async appendRemoteChanges(remote: ChangeEntry[], opts: { newEdits?: boolean }): Promise<void> {
+        if (this.options.offlineWrites) {
+            // Queued changes go first, so later writes queue behind them
+            if (this.pendingChanges.length > 0 || this.isOffline()) return this.queueChanges(remote);
+            try {
+                return await this.commitChanges(remote, opts);
+            } catch (err: any) {
+                if (!this.isConnectivityError(err)) throw err;
+                this.log('Drive unreachable, queueing changes', err);
+                return this.queueChanges(remote);
+            }
+        }
+        return this.commitChanges(remote, opts);
+    }
+
+    /**
+     * Collect changes for `writeCoalesceMs` (or until `maxBatchSize`) and commit them
+     * as one change log. Resolves or rejects with this caller's outcome only.
+     */
+    private coalesceChanges(changes: ChangeEntry[], opts: { newEdits?: boolean }): Promise<void> {
+        const newEdits = opts.newEdits !== false;
+        if (this.writeBatch && this.writeBatch.newEdits !== newEdits) this.flushWriteBatch();
+
+        return new Promise((resolve, reject) => {
+            if (!this.writeBatch) {
+                this.writeBatch = {
+                    writers: [],
+                    size: 0,
+                    newEdits,
+                    timer: setTimeout(() => this.flushWriteBatch(), this.writeCoalesceMs)
+                };
+            }
+            this.writeBatch.writers.push({ changes, resolve, reject });
+            this.writeBatch.size += changes.length;
+            if (this.writeBatch.size >= this.maxBatchSize) this.flushWriteBatch();
+        });
+    }
+
+    /** Hand the collected batch to the commit chain; batches commit in the order they were collected */
+    private flushWriteBatch(): Promise<void> {
+        const batch = this.writeBatch;
+        if (batch) {
+            this.writeBatch = null;
+            clearTimeout(batch.timer);
+            this.batchCommits = this.batchCommits.then(() => this.commitWriteBatch(batch.writers, batch.newEdits));
+        }
+        return this.batchCommits;
+    }
+
+    private async commitWriteBatch(writers: BatchedWrite[], newEdits: boolean): Promise<void> {
+        if (newEdits) {
+            // Callers validated against the index on their own; recheck them against each other
+            const accepted: ChangeEntry[] = [];
+            writers = writers.filter(writer => {
+                try {
+                    this.checkConflicts([...accepted, ...writer.changes]);
+                    accepted.push(...writer.changes);
+                    return true;
+                } catch (err) {
+                    writer.reject(err);
+                    return false;
+                }
+            });
+        }
+        if (writers.length === 0) return;
+
+        try {
+            await this.appendRemoteChanges(this.resequence(writers.flatMap(w => w.changes)), { newEdits });
+            writers.forEach(w => w.resolve());
+        } catch (err: any) {
+            if (err.status !== 409 || writers.length === 1) {
+                writers.forEach(w => w.reject(err));
+                return;
+            }
+            // A remote write conflicts with part of the batch: commit callers one by one
+            this.log('Coalesced batch conflicted, committing writes separately');
+            for (const writer of writers) {
+                try {
+                    await this.appendRemoteChanges(this.resequence(writer.changes), { newEdits });
+                    writer.resolve();
+                } catch (e) {
+                    writer.reject(e);
+                }
+            }
+        }
+    }
+
+    /** Number changes right after the current sequence (and queued outbox changes) */
+    private resequence(changes: ChangeEntry[]): ChangeEntry[] {
+        let seq = this.meta.seq + this.pendingChanges.length;
+        for (const change of changes) change.seq = ++seq;
+        return changes;
+    }
+
+    /** Write changes to a new log and commit it to _meta.json, reloading and retrying on OCC failures */
+    private async commitChanges(remote: ChangeEntry[], opts: { newEdits?: boolean }): Promise<void> {
+        const MAX_RETRIES = 5;
+        let attemptNum = 0;
 
         while (attemptNum < MAX_RETRIES) {
             try {
@@ -512,7 +1203,7 @@ export class DriveHandler {
                     // Reload and RETRY
                     await this.load();
                     // Check conflicts against Index (Metadata sufficient)
-                    this.checkConflicts(remote);
+                    if (opts.newEdits !== false) this.checkConflicts(remote);
 
                     // Reseq
                     let currentSeq = this.meta.seq;
@@ -530,7 +1221,78 @@ export class DriveHandler {
         throw new Error('Failed to append changes');
     }
 
+    private isConnectivityError(err: any): boolean {
+        return err.code === 'network_error' || CONNECTIVITY_STATUSES.includes(err.status);
+    }
+
+    /** Accept changes into the outbox: stored locally, visible at once, committed by the next flush */
+    private async queueChanges(changes: ChangeEntry[]): Promise<void> {
+        this.pendingChanges.push(...changes);
+        if (this.localCache) await this.localCache.saveOutbox(this.pendingChanges);
+
+        const changedDocs: Record<string, any> = {};
+        for (const change of changes) {
+            this.updateIndex(change, { fileId: PENDING_LOCATION });
+            if (!change.doc) this.docCache.remove(change.id);
+            else if (this.index[change.id]?.rev === change.rev) this.docCache.put(change.id, change.doc);
+            changedDocs[change.id] = {
+                _id: change.id,
+                _rev: change.rev,
+                _deleted: !!change.deleted,
+                seq: change.seq
+            };
+        }
+        this.log('Queued changes in the outbox', { queued: changes.length, pending: this.pendingChanges.length });
+        this.notifyListeners(changedDocs);
+        this.persistState();
+
+        if (!this.isOffline()) {
+            this.flushPendingChanges().catch(e => this.log('Outbox flush failed, will retry', e));
+        }
+    }
+
+    private applyPendingChanges(): void {
+        for (const change of this.pendingChanges) this.updateIndex(change, { fileId: PENDING_LOCATION });
+    }
+
+    /**
+     * Commit the outbox to Drive, oldest changes first. Queued edits are written like
+     * replicated revisions: if the document changed remotely meanwhile, they become a
+     * conflicting branch rather than being rejected. Concurrent calls share one flush.
+     */
+    flushPendingChanges(): Promise<void> {
+        if (!this.flushingPromise) {
+            this.flushingPromise = (async () => {
+                try {
+                    while (this.pendingChanges.length > 0) {
+                        const batch = [...this.pendingChanges];
+                        let seq = this.meta.seq;
+                        for (const change of batch) change.seq = ++seq;
+
+                        await this.commitChanges(batch, { newEdits: false });
+                        this.pendingChanges.splice(0, batch.length);
+                        if (this.localCache) await this.localCache.saveOutbox(this.pendingChanges);
+
+                        const conflicted = [...new Set(batch.map(c => c.id))]
+                            .filter(id => this.index[id] && collectConflicts(this.revTreeOf(this.index[id])).length > 0);
+                        this.log('Flushed outbox', { changes: batch.length, conflicted });
+                    }
+                } finally {
+                    this.flushingPromise = null;
+                }
+            })();
+        }
+        return this.flushingPromise;
+    }
+
+    /** Number of changes waiting in the outbox */
+    getPendingChangesCount(): number {
+        return this.pendingChanges.length;
+    }
+
     private async appendLocalDocs(changes: ChangeEntry[]): Promise<void> {
+        // No meta commit follows a local docs write, so the codec has to be recorded first
+        await this.recordCodec();
         const MAX_RETRIES = 5;
         let attempt = 0;
         while (attempt < MAX_RETRIES) {
@@ -559,12 +1321,12 @@ export class DriveHandler {
                 }
 
                 // 3. Save back
-                const content = JSON.stringify(store);
+                const content = await this.encode(JSON.stringify(store));
                 let res: { id: string, etag: string };
                 if (this.meta.localDocsId) {
-                    res = await this.client.updateFile(this.meta.localDocsId, content, currentEtag || undefined);
+                    res = await this.client.updateFile(this.meta.localDocsId, content, currentEtag || undefined, this.mimeType('application/json'));
                 } else {
-                    res = await this.client.createFile('_local_docs.json', [this.folderId!], 'application/json', content);
+                    res = await this.client.createFile('_local_docs.json', [this.folderId!], this.mimeType('application/json'), content);
                     // Update Meta with new File ID
                     await this.atomicUpdateMeta((latest) => ({ ...latest, localDocsId: res.id }));
                 }
@@ -573,8 +1335,8 @@ export class DriveHandler {
                 // Update Index
                 const changedDocs: Record<string, any> = {};
                 for (const change of changes) {
-                    this.updateIndex(change, res.id);
-                    if (change.doc) this.docCache.put(change.id, change.doc);
+                    this.updateIndex(change, { fileId: res.id });
+                    if (change.doc) this.rememberBody(change.id, change.rev, change.doc);
                     else this.docCache.remove(change.id);
                     changedDocs[change.id] = {
                         _id: change.id,
@@ -584,6 +1346,7 @@ export class DriveHandler {
                     };
                 }
                 this.notifyListeners(changedDocs);
+                this.persistState();
                 return;
             } catch (err: any) {
                 if (err.status === 412 || err.status === 409) {
@@ -598,26 +1361,35 @@ export class DriveHandler {
 
     private async tryAppendChanges(changes: ChangeEntry[]): Promise<void> {
         // 1. Write Log File (Upload Data)
-        const fileId = await this.writeChangeFile(changes);
+        const { fileId, ranges, checksum } = await this.writeChangeFile(changes);
 
         try {
             // 2. Prepare speculative meta update
             const nextMeta = { ...this.meta };
             nextMeta.changeLogIds = [...nextMeta.changeLogIds, fileId];
+            nextMeta.checksums = { ...nextMeta.checksums, [fileId]: checksum };
             nextMeta.seq = changes[changes.length - 1].seq;
 
             // 3. Commit Lock
-            await this.saveMeta(nextMeta, this.metaEtag);
+            try {
+                await this.saveMeta(nextMeta, this.metaEtag);
+            } catch (err: any) {
+                // A retried commit whose first response got lost fails If-Match against itself
+                if (err.status !== 412 || !await this.isLogCommitted(fileId)) throw err;
+                this.log('Meta commit went through despite the error', fileId);
+            }
 
             // 4. Update Local State
             this.meta = nextMeta;
+            this.processedLogIds.add(fileId);
 
             const changedDocs: Record<string, any> = {};
-            for (const change of changes) {
-                this.updateIndex(change, fileId);
+            changes.forEach((change, i) => {
+                this.updateIndex(change, { fileId, ...ranges[i] });
                 if (change.doc) {
-                    this.docCache.put(change.id, change.doc);
-                } else if (change.deleted) {
+                    this.rememberBody(change.id, change.rev, change.doc);
+                } else {
+                    // Deleted, or purged (which may bring back a conflict as winner)
                     this.docCache.remove(change.id);
                 }
                 changedDocs[change.id] = {
@@ -626,10 +1398,12 @@ export class DriveHandler {
                     _deleted: !!change.deleted,
                     seq: change.seq
                 };
-            }
+            });
 
             // Notify local changes feed listeners about only what we just wrote
             this.notifyListeners(changedDocs);
+            this.resetPollingInterval();
+            this.persistState();
 
             // 5. Compaction Check
             const totalChanges = await this.countTotalChanges();
@@ -638,143 +1412,927 @@ export class DriveHandler {
                 this.compact().catch(e => console.error('Compaction failed', e));
             }
         } catch (err) {
-            // Cleanup orphaned log file on metadata update failure
-            this.client.deleteFile(fileId).catch(e => this.log('Failed to cleanup orphaned log', fileId, e));
+            // Cleanup orphaned log file on metadata update failure, unless meta references it after all
+            this.isLogCommitted(fileId)
+                .then(committed => committed ? undefined : this.removeFile(fileId))
+                .catch(e => this.log('Failed to cleanup orphaned log', fileId, e));
             throw err;
         }
     }
 
+    /**
+     * Whether `_meta.json` on Drive lists the change log. The local meta ETag is left
+     * as it was, so the next commit reloads before it writes.
+     */
+    private async isLogCommitted(fileId: string): Promise<boolean> {
+        const metaFile = await this.findFile('_meta.json');
+        if (!metaFile) return false;
+        const latest = await this.readMeta(metaFile.fileId);
+        return latest.changeLogIds.includes(fileId);
+    }
+
     /** Update Index with a new change */
-    private updateIndex(change: ChangeEntry, fileId: string) {
+    private updateIndex(change: ChangeEntry, location: FilePointer) {
+        if (change.id.startsWith('_local/')) {
+            // Local docs are not versioned, the latest write wins
+            this.index[change.id] = {
+                rev: change.rev,
+                seq: change.seq,
+                deleted: !!change.deleted,
+                location
+            };
+            return;
+        }
+
+        if (change.purged) return this.purgeFromIndex(change);
+
+        const existing = this.index[change.id];
+        const revTree = mergeRevTree(
+            existing ? this.revTreeOf(existing) : [],
+            pathFromHistory(this.historyOf(change), !!change.deleted)
+        );
+
+        // Keep body pointers for leaves only, the new revision lives at `location`
+        const previous = existing ? this.revLocationsOf(existing) : {};
+        const leaves = collectLeaves(revTree);
+        const revLocations: Record<string, FilePointer> = {};
+        for (const leaf of leaves) {
+            if (leaf.rev === change.rev) {
+                revLocations[leaf.rev] = location;
+            } else if (previous[leaf.rev]) {
+                revLocations[leaf.rev] = previous[leaf.rev];
+            }
+        }
+
+        const winner = leaves[0];
+        this.index[change.id] = {
+            rev: winner.rev,
+            seq: change.seq,
+            deleted: winner.deleted,
+            // A deletion keeps its age while other deleted leaves come in
+            ...(winner.deleted ? { deletedAt: (existing && existing.deleted && existing.deletedAt) || change.timestamp } : {}),
+            location: revLocations[winner.rev] || { fileId: location.fileId },
+            revTree,
+            revLocations
+        };
+    }
+
+    /** Replay a purge: drop the purged branch, or the whole entry once no leaf is left */
+    private purgeFromIndex(change: ChangeEntry): void {
+        const existing = this.index[change.id];
+        if (!existing) return;
+        const { tree: revTree, removed } = removeLeaf(this.revTreeOf(existing), change.rev);
+        if (removed.length === 0) return;
+        if (revTree.length === 0) {
+            delete this.index[change.id];
+            return;
+        }
+
+        const previous = this.revLocationsOf(existing);
+        const revLocations: Record<string, FilePointer> = {};
+        const leaves = collectLeaves(revTree);
+        for (const leaf of leaves) {
+            if (previous[leaf.rev]) revLocations[leaf.rev] = previous[leaf.rev];
+        }
+        const winner = leaves[0];
         this.index[change.id] = {
-            rev: change.rev,
+            rev: winner.rev,
             seq: change.seq,
-            deleted: !!change.deleted,
-            location: { fileId }
+            deleted: winner.deleted,
+            ...(winner.deleted ? { deletedAt: existing.deletedAt || change.timestamp } : {}),
+            location: revLocations[winner.rev] || existing.location,
+            revTree,
+            revLocations
         };
     }
 
+    private historyOf(change: ChangeEntry) {
+        if (change.revisions) return change.revisions;
+        const { pos, hash } = parseRev(change.rev);
+        return { start: pos, ids: [hash] };
+    }
+
     private checkConflicts(changes: ChangeEntry[]): void {
+        // Trees as they will look after the earlier changes of this batch
+        const trees: Record<string, RevTreePath[]> = {};
+
         for (const change of changes) {
             const docId = change.id;
-            const newRevNum = parseInt(change.rev.split('-')[0], 10);
-
             const existing = this.index[docId];
-            if (existing) {
-                const currentRevNum = parseInt(existing.rev.split('-')[0], 10);
-                if (currentRevNum >= newRevNum) {
+            const tree = trees[docId] || (existing ? this.revTreeOf(existing) : null);
+
+            if (tree) {
+                let conflict: boolean;
+                if (!change.revisions) {
+                    // Entries without history: fall back to comparing generations
+                    const winner = collectLeaves(tree)[0];
+                    conflict = parseRev(winner.rev).pos >= parseRev(change.rev).pos;
+                } else if (change.revisions.ids.length > 1) {
+                    // An edit must still extend one of the current leaves
+                    const parent = `${change.revisions.start - 1}-${change.revisions.ids[1]}`;
+                    conflict = !isLeaf(tree, parent);
+                } else {
+                    // A brand new document may only replace a deleted one
+                    conflict = !collectLeaves(tree)[0].deleted;
+                }
+
+                if (conflict) {
                     const err: any = new Error('Document update conflict');
                     err.status = 409;
                     err.name = 'conflict'; // PouchDB expectation
                     throw err;
                 }
             }
+
+            trees[docId] = mergeRevTree(tree || [], pathFromHistory(this.historyOf(change), !!change.deleted));
         }
     }
 
     /** Compact: Create SnapshotIndex + SnapshotData */
     async compact(): Promise<void> {
         if (this.isCompacting) return;
+        if (this.pendingChanges.length > 0) {
+            // The snapshot must only hold committed changes
+            this.log('Compaction skipped, outbox not flushed yet');
+            return;
+        }
         this.isCompacting = true;
         try {
             this.log('Starting compaction');
+            const startedAt = Date.now();
             const snapshotSeq = this.meta.seq;
             const oldLogIds = [...this.meta.changeLogIds];
             const oldIndexId = this.meta.snapshotIndexId;
+            // Entries are replaced, never mutated, so a shallow copy pins this state
+            const entries = { ...this.index };
+            const docIds = Object.keys(entries).filter(id => !id.startsWith('_local/'));
+
+            // 1. Keep chunks whose documents are all unchanged since the last snapshot,
+            // unless files may still be encrypted with a previous key
+            const rotating = await this.isRotatingKeys();
+            const previousChunks = this.snapshotChunks;
+            const unchanged = (id: string) => entries[id] === this.snapshotEntries[id];
+            const keptChunks = rotating ? [] : previousChunks.filter(c => c.docIds.every(unchanged));
+            const keptIds = new Set(keptChunks.flatMap(c => c.docIds));
+
+            // 2. Fetch the documents that need a new chunk: changed ones and the
+            // unchanged neighbours of changed ones
+            const rewriteIds = docIds.filter(id => !entries[id].deleted && !keptIds.has(id)).sort();
+            const bodies = await this.getMulti(rewriteIds);
 
-            // 1. Fetch ALL active documents
-            // We need them to build the new large snapshot-data file
-            // This is the one time we download everything if not cached. 
-            // Optimization: We could reuse existing `snapshot-data` chunks and only append new data 
-            // to a new chunk, but for simplicity: Merge All.
-
-            const allIds = Object.keys(this.index).filter(id => !this.index[id].deleted && !id.startsWith('_local/'));
-            const allDocs = await this.getMulti(allIds);
-
-            const snapshotData: SnapshotDataChunk = { docs: {} };
             const missingDocs: string[] = [];
-            allIds.forEach((id, i) => {
-                if (allDocs[i]) {
-                    snapshotData.docs[id] = allDocs[i];
-                } else {
-                    missingDocs.push(id);
+            const conflictBodies: Record<string, Record<string, any>> = {};
+            for (let i = 0; i < rewriteIds.length; i++) {
+                const id = rewriteIds[i];
+                if (!bodies[i]) missingDocs.push(id);
+                // Losing leaves keep their bodies so conflicts survive compaction
+                for (const rev of collectConflicts(this.revTreeOf(entries[id]))) {
+                    const doc = await this.getRevision(id, rev);
+                    if (!doc) {
+                        missingDocs.push(`${id}@${rev}`);
+                        continue;
+                    }
+                    if (!conflictBodies[id]) conflictBodies[id] = {};
+                    conflictBodies[id][rev] = doc;
                 }
-            });
+            }
 
             if (missingDocs.length > 0) {
                 this.log('Compaction ABORTED: Failed to fetch documents', missingDocs);
                 throw new Error(`Compaction failed: missing ${missingDocs.length} documents. Aborting to prevent data loss.`);
             }
 
-            // 2. Upload Data File
-            const dataContent = JSON.stringify(snapshotData);
-            const dataRes = await this.client.createFile(
-                `snapshot-data-${Date.now()}.json`,
-                [this.folderId!],
-                'application/json',
-                dataContent
-            );
-            const dataFileId = dataRes.id;
+            // 3. Pack them into size-bounded chunks and upload those
+            const newChunks: SnapshotChunkInfo[] = [];
+            const chunkOf: Record<string, string> = {};
+            const rangesOf: Record<string, Record<string, ByteRange>> = {};
+            let pending: { data: SnapshotDataChunk, docIds: string[], size: number, digests: Set<string> } | null = null;
+            const flush = async () => {
+                if (!pending) return;
+                const packed = packSnapshotChunk(pending.data);
+                const { fileId, checksum } = await this.uploadDataFile(
+                    `snapshot-data-${Date.now()}-${newChunks.length}.json`,
+                    'application/json',
+                    packed.content
+                );
+                for (const id of pending.docIds) {
+                    chunkOf[id] = fileId;
+                    rangesOf[id] = { ...packed.conflicts[id], [entries[id].rev]: packed.docs[id] };
+                }
+                newChunks.push({ fileId, docIds: pending.docIds, size: pending.size, digests: [...pending.digests], checksum });
+                pending = null;
+            };
+            for (let i = 0; i < rewriteIds.length; i++) {
+                const id = rewriteIds[i];
+                const conflicts = conflictBodies[id];
+                // Serialized length is close enough to the byte size for bounding chunks
+                const size = JSON.stringify(bodies[i]).length + (conflicts ? JSON.stringify(conflicts).length : 0);
+                if (pending && pending.size + size > this.snapshotChunkSize) await flush();
+                if (!pending) pending = { data: { docs: {} }, docIds: [], size: 0, digests: new Set() };
+
+                pending.data.docs[id] = bodies[i];
+                collectDigests(bodies[i], pending.digests);
+                if (conflicts) {
+                    if (!pending.data.conflicts) pending.data.conflicts = {};
+                    pending.data.conflicts[id] = conflicts;
+                    for (const doc of Object.values(conflicts)) collectDigests(doc, pending.digests);
+                }
+                pending.docIds.push(id);
+                pending.size += size;
+            }
+            await flush();
+            this.log('Compaction chunks', { kept: keptChunks.length, written: newChunks.length, dropped: previousChunks.length - keptChunks.length });
 
-            // 3. Create Index pointing to this Data File
+            if (rotating) {
+                // Every chunk was rewritten; bring blobs and local docs to the current key too
+                for (const digest of new Set(newChunks.flatMap(c => c.digests!))) await this.reencryptAttachment(digest);
+                if (this.meta.localDocsId) await this.appendLocalDocs([]);
+            }
+
+            // 4. Create the index: rewritten docs point at their new chunk, the rest is carried
+            // over, except tombstones older than the retention window
+            const retention = this.options.tombstoneRetentionMs;
             const newIndexEntries: Record<string, IndexEntry> = {};
-            for (const id of Object.keys(snapshotData.docs)) {
+            const expired: string[] = [];
+            for (const id of docIds) {
+                const entry = entries[id];
+                const fileId = chunkOf[id];
+                if (!fileId && entry.deleted) {
+                    // Tombstones from before deletion times were recorded start aging now
+                    const deletedAt = entry.deletedAt || startedAt;
+                    if (retention !== undefined && startedAt - deletedAt > retention) {
+                        expired.push(id);
+                        continue;
+                    }
+                    newIndexEntries[id] = entry.deletedAt ? entry : { ...entry, deletedAt };
+                    continue;
+                }
+                if (!fileId) {
+                    // Unchanged docs in kept chunks
+                    newIndexEntries[id] = entry;
+                    continue;
+                }
+                const revLocations: Record<string, FilePointer> = {};
+                for (const rev of Object.keys(this.revLocationsOf(entry))) {
+                    revLocations[rev] = { fileId, ...rangesOf[id][rev] };
+                }
                 newIndexEntries[id] = {
-                    rev: this.index[id].rev,
-                    seq: this.index[id].seq,
-                    location: { fileId: dataFileId }
+                    rev: entry.rev,
+                    seq: entry.seq,
+                    deleted: entry.deleted,
+                    location: { fileId, ...rangesOf[id][entry.rev] },
+                    revTree: this.revTreeOf(entry),
+                    revLocations
                 };
             }
 
+            const chunks = [...keptChunks, ...newChunks];
             const snapshotIndex: SnapshotIndex = {
                 entries: newIndexEntries,
                 seq: snapshotSeq,
-                createdAt: Date.now()
+                createdAt: Date.now(),
+                chunks
             };
 
             const indexContent = JSON.stringify(snapshotIndex);
-            const indexRes = await this.client.createFile(
+            const { fileId: newIndexId, checksum: indexChecksum } = await this.uploadDataFile(
                 `snapshot-index-${Date.now()}.json`,
-                [this.folderId!],
                 'application/json',
                 indexContent
             );
-            const newIndexId = indexRes.id;
 
-            // 4. Update Meta
+            // 4b. Fold the changes Mango indexes and views have not seen into new files
+            const mangoUpdates = await this.rewriteMangoIndexes(rotating);
+            const viewUpdates = await this.rewriteViewIndexes(rotating);
+
+            // 5. Update Meta
             let filesToDelete: string[] = [];
+            let remainingLogs: string[] = [];
             await this.atomicUpdateMeta((latest) => {
-                const remainingLogs = latest.changeLogIds.filter(id => !oldLogIds.includes(id));
+                remainingLogs = latest.changeLogIds.filter(id => !oldLogIds.includes(id));
+                const mango = swapIndexFiles(latest.mangoIndexes, mangoUpdates);
+                const views = swapIndexFiles(latest.views, viewUpdates);
                 // Only delete files that were in oldLogIds but not in remainingLogs
-                filesToDelete = oldLogIds.filter(id => !remainingLogs.includes(id));
+                filesToDelete = [...oldLogIds.filter(id => !remainingLogs.includes(id)), ...mango.unused, ...views.unused];
+                // Checksums of files still referenced: the remaining logs and the new index
+                const checksums: Record<string, FileChecksum> = { [newIndexId]: indexChecksum };
+                for (const id of remainingLogs) {
+                    if (latest.checksums && latest.checksums[id]) checksums[id] = latest.checksums[id];
+                }
                 return {
                     ...latest,
                     snapshotIndexId: newIndexId,
                     changeLogIds: remainingLogs,
+                    checksums,
+                    mangoIndexes: mango.list,
+                    views: views.list,
                     lastCompaction: Date.now()
                 };
-            });
+            }, rotating);
 
-            // 5. Cleanup - Only delete files that were confirmed removed from metadata
-            await this.cleanupOldFiles(oldIndexId, filesToDelete);
+            // Point untouched entries at the new chunks before the old logs disappear
+            for (const id of docIds) {
+                if (this.index[id] !== entries[id]) continue;
+                if (newIndexEntries[id]) this.index[id] = newIndexEntries[id];
+                else delete this.index[id];
+            }
+            if (expired.length > 0) this.log('Compaction dropped expired tombstones', expired.length);
+            this.currentSnapshotIndexId = newIndexId;
+            this.snapshotEntries = newIndexEntries;
+            this.snapshotChunks = chunks;
+            this.persistState();
+
+            // 6. Cleanup - Only delete files that were confirmed removed from metadata,
+            // and chunks the new index no longer references
+            const keptFileIds = new Set(keptChunks.map(c => c.fileId));
+            const droppedChunks = previousChunks.map(c => c.fileId).filter(id => !keptFileIds.has(id));
+            await this.cleanupOldFiles(oldIndexId, [...filesToDelete, ...droppedChunks]);
             this.currentLogSizeEstimate = 0;
+
+            // 7. Drop attachment blobs nothing references anymore
+            if (chunks.every(c => c.digests)) {
+                const referenced = new Set<string>(chunks.flatMap(c => c.digests!));
+                await this.cleanupAttachments(referenced, remainingLogs, startedAt);
+            } else {
+                this.log('Skipping attachment cleanup until every chunk records its digests');
+            }
+
+            // 8. Files left behind by crashes or failed deletes, here or on other clients
+            try {
+                await this.collectGarbage();
+            } catch (e) {
+                this.log('Garbage collection failed', e);
+            }
         } finally {
             this.isCompacting = false;
         }
     }
 
+    /**
+     * Check the folder against `_meta.json` and the snapshot index: every referenced
+     * file must exist and parse, index entries must point at readable chunks, and the
+     * logs must hold every seq since the snapshot. With `repair`, `_meta.json` and the
+     * index are rebuilt from the logs and snapshots actually present, reloaded and compacted.
+     */
+    async check(options: { repair?: boolean } = {}): Promise<CheckReport> {
+        if (!this.folderId) this.folderId = await this.findOrCreateFolder();
+        const problems: CheckProblem[] = [];
+        const report = (problem: CheckProblem) => {
+            this.log('Check:', problem.message);
+            problems.push(problem);
+        };
+
+        const files = await this.client.listFiles(`'${this.folderId}' in parents and trashed = false`);
+        this.noteRemoteFiles(files);
+        const present = new Map(files.map(f => [f.id, f]));
+        const missing = (fileId: string, what: string) =>
+            report({ type: 'missing_file', fileId, message: `${what} ${fileId} is missing` });
+        // Parsed content of a present file, or null (reported) when it cannot be read or has the wrong shape
+        const read = async (fileId: string, valid: (content: any) => boolean): Promise<any | null> => {
+            try {
+                const content = await this.fetchFile(fileId, true);
+                if (valid(content)) return content;
+            } catch (e: any) {
+                if (ENCRYPTION_ERRORS.includes(e.code)) throw e;
+            }
+            const { name } = present.get(fileId)!;
+            report({ type: 'unreadable_file', fileId, name, message: `${name} (${fileId}) cannot be read` });
+            return null;
+        };
+        const inspectSnapshot = async (indexId: string) => {
+            const index: SnapshotIndex | null = await read(indexId, c => !!c && typeof c.entries === 'object' && typeof c.seq === 'number');
+            if (!index) return null;
+            const chunks = index.chunks || this.chunksFromEntries(index.entries);
+            const readableChunks = new Set<string>();
+            for (const chunk of chunks) {
+                if (!present.has(chunk.fileId)) missing(chunk.fileId, 'Snapshot chunk');
+                else if (await read(chunk.fileId, c => !!c && typeof c.docs === 'object')) readableChunks.add(chunk.fileId);
+            }
+            const dangling = new Set<string>();
+            for (const [docId, entry] of Object.entries(index.entries)) {
+                // Tombstones keep pointing at the log that deleted them, which compaction removed
+                if (entry.deleted) continue;
+                const broken = Object.values(this.revLocationsOf(entry))
+                    .find(l => l.fileId !== 'LEGACY_MEMORY' && !readableChunks.has(l.fileId));
+                if (!broken) continue;
+                dangling.add(docId);
+                report({ type: 'dangling_pointer', docId, fileId: broken.fileId, message: `Index entry of ${docId} points at unavailable file ${broken.fileId}` });
+            }
+            return { id: indexId, index, chunks, readableChunks, dangling };
+        };
+
+        // 1. _meta.json
+        let meta: MetaData | null = null;
+        const metaFile = files.find(f => f.name === '_meta.json');
+        if (!metaFile) {
+            report({ type: 'missing_file', name: '_meta.json', message: '_meta.json is missing' });
+        } else {
+            try {
+                meta = await this.readMeta(metaFile.id);
+            } catch (e: any) {
+                if (ENCRYPTION_ERRORS.includes(e.code)) throw e;
+                report({ type: 'unreadable_file', fileId: metaFile.id, name: '_meta.json', message: '_meta.json cannot be read' });
+            }
+        }
+
+        // 2. Change logs
+        const logs: { id: string, changes: ChangeEntry[] }[] = [];
+        const listedLogs = new Set<string>();
+        for (const id of meta ? meta.changeLogIds : []) {
+            if (listedLogs.has(id)) {
+                report({ type: 'duplicate_reference', fileId: id, message: `Change log ${id} is listed more than once` });
+                continue;
+            }
+            listedLogs.add(id);
+            if (!present.has(id)) {
+                missing(id, 'Change log');
+                continue;
+            }
+            const content = await read(id, isChangeLog);
+            if (content) logs.push({ id, changes: Array.isArray(content) ? content : [content] });
+        }
+
+        // 3. Snapshot index, its chunks and the entries pointing into them
+        let snapshot: Awaited<ReturnType<typeof inspectSnapshot>> = null;
+        if (meta && meta.snapshotIndexId) {
+            if (present.has(meta.snapshotIndexId)) snapshot = await inspectSnapshot(meta.snapshotIndexId);
+            else missing(meta.snapshotIndexId, 'Snapshot index');
+        }
+
+        // 4. _local docs
+        let localDocsReadable = false;
+        if (meta && meta.localDocsId) {
+            if (present.has(meta.localDocsId)) localDocsReadable = !!await read(meta.localDocsId, c => !!c && typeof c.docs === 'object');
+            else missing(meta.localDocsId, '_local docs file');
+        }
+
+        // 5. Every seq since the snapshot must be in a log (unknown without the snapshot)
+        if (meta && (!meta.snapshotIndexId || snapshot)) {
+            const seqs = new Set(logs.flatMap(l => l.changes.map(c => c.seq)));
+            let gapStart: number | null = null;
+            for (let seq = (snapshot ? snapshot.index.seq : 0) + 1; seq <= meta.seq + 1; seq++) {
+                if (seq <= meta.seq && !seqs.has(seq)) {
+                    if (gapStart === null) gapStart = seq;
+                } else if (gapStart !== null) {
+                    const range = gapStart === seq - 1 ? `${gapStart}` : `${gapStart}-${seq - 1}`;
+                    report({ type: 'seq_gap', message: `No change log holds seq ${range}` });
+                    gapStart = null;
+                }
+            }
+        }
+
+        // 6. Files nothing references (attachment blobs are left to compaction)
+        const referenced = new Set<string>(listedLogs);
+        if (metaFile) referenced.add(metaFile.id);
+        if (meta && meta.snapshotIndexId) referenced.add(meta.snapshotIndexId);
+        if (meta && meta.localDocsId) referenced.add(meta.localDocsId);
+        if (snapshot) snapshot.chunks.forEach(c => referenced.add(c.fileId));
+        if (meta) [...(meta.mangoIndexes || []), ...(meta.views || [])].forEach(i => referenced.add(i.fileId));
+        for (const file of files) {
+            if (referenced.has(file.id) || isAttachmentFileName(file.name)) continue;
+            report({ type: 'unreferenced_file', fileId: file.id, name: file.name, message: `${file.name} (${file.id}) is not referenced` });
+        }
+
+        const ok = problems.every(p => p.type === 'unreferenced_file');
+        if (!options.repair || ok) return { ok, problems, fileCount: files.length, repaired: false };
+
+        // Repair: without the referenced snapshot index, fall back to the newest readable one
+        if (!snapshot && (!meta || meta.snapshotIndexId)) {
+            const candidates = files
+                .filter(f => f.name.startsWith('snapshot-index-') && (!meta || f.id !== meta.snapshotIndexId))
+                .sort((a, b) => (b.modifiedTime || '').localeCompare(a.modifiedTime || ''));
+            for (const file of candidates) {
+                snapshot = await inspectSnapshot(file.id);
+                if (snapshot) break;
+            }
+        }
+        // Without _meta.json, every log with changes after the snapshot is adopted
+        if (!meta) {
+            const base = snapshot ? snapshot.index.seq : 0;
+            for (const file of files.filter(f => f.name.startsWith('changes-'))) {
+                const content = await read(file.id, isChangeLog);
+                const changes: ChangeEntry[] = content ? (Array.isArray(content) ? content : [content]) : [];
+                if (changes.some(c => c.seq > base)) logs.push({ id: file.id, changes });
+            }
+            logs.sort((a, b) => a.changes[0].seq - b.changes[0].seq);
+        }
+
+        const checksums: Record<string, FileChecksum> = {};
+        const keepChecksum = (id: string) => {
+            if (meta && meta.checksums && meta.checksums[id]) checksums[id] = meta.checksums[id];
+        };
+        let snapshotIndexId: string | null = null;
+        if (snapshot) {
+            const { index, readableChunks, dangling } = snapshot;
+            if (dangling.size > 0 || snapshot.chunks.some(c => !readableChunks.has(c.fileId))) {
+                // Docs whose bodies are gone are dropped; a later change in a log brings them back
+                const entries = { ...index.entries };
+                dangling.forEach(id => delete entries[id]);
+                const chunks = snapshot.chunks.filter(c => readableChunks.has(c.fileId));
+                const uploaded = await this.uploadDataFile(
+                    `snapshot-index-${Date.now()}.json`,
+                    'application/json',
+                    JSON.stringify({ ...index, entries, chunks })
+                );
+                snapshotIndexId = uploaded.fileId;
+                checksums[uploaded.fileId] = uploaded.checksum;
+            } else {
+                snapshotIndexId = snapshot.id;
+                keepChecksum(snapshot.id);
+            }
+        }
+        logs.forEach(l => keepChecksum(l.id));
+
+        let localDocsId = localDocsReadable ? meta!.localDocsId! : null;
+        if (!localDocsId) {
+            const localDocsFile = files.find(f => f.name === '_local_docs.json' && (!meta || f.id !== meta.localDocsId));
+            if (localDocsFile && await read(localDocsFile.id, c => !!c && typeof c.docs === 'object')) localDocsId = localDocsFile.id;
+        }
+
+        const repairedMeta: MetaData = {
+            ...(meta || {}),
+            dbName: this.meta.dbName,
+            lastCompaction: meta ? meta.lastCompaction : null,
+            // Never reuse a seq that was handed out, even if its change is lost
+            seq: Math.max(meta ? meta.seq : 0, snapshot ? snapshot.index.seq : 0, ...logs.flatMap(l => l.changes.map(c => c.seq))),
+            changeLogIds: logs.map(l => l.id),
+            snapshotIndexId,
+            localDocsId,
+            checksums
+        };
+        // No ETag: the repaired meta replaces whatever is there
+        await this.saveMeta(repairedMeta);
+        this.log('Repaired _meta.json', { logs: repairedMeta.changeLogIds.length, snapshotIndexId, seq: repairedMeta.seq });
+
+        // Rebuild the in-memory state from the repaired meta
+        this.index = {};
+        this.snapshotEntries = {};
+        this.snapshotChunks = [];
+        this.processedLogIds = new Set();
+        this.currentSnapshotIndexId = null;
+        this.fileCache.clear();
+        this.docCache.clear();
+        await this.load();
+        // A fresh snapshot folds the surviving logs in, so lost seqs stop showing up as gaps
+        await this.compact();
+        return { ok, problems, fileCount: files.length, repaired: true };
+    }
+
+    /**
+     * Create a Mango index (the `index` of a pouchdb-find `createIndex` request). Its rows
+     * are built from every document once and stored in a `mango-index-*` file that
+     * `_meta.json` points at.
+     */
+    async createMangoIndex(index: any): Promise<{ result: 'created' | 'exists', id: string, name: string }> {
+        const def = indexDefinition(index);
+        await this.getIndexKeys();
+        const existing = (this.meta.mangoIndexes || []).find(i => i.ddoc === def.ddoc && i.name === def.name);
+        if (existing && sameDefinition(existing, def)) return { result: 'exists', id: def.ddoc, name: def.name };
+
+        const state: RowIndexState<any[]> = { fileId: '', seq: 0, rows: {} };
+        await this.updateIndexRows(state, doc => indexRow(doc, def));
+        const info = await this.uploadMangoIndex(def, state);
+        let replaced: MangoIndexInfo | undefined;
+        await this.atomicUpdateMeta(latest => {
+            const indexes = latest.mangoIndexes || [];
+            replaced = indexes.find(i => i.ddoc === def.ddoc && i.name === def.name);
+            return { ...latest, mangoIndexes: [...indexes.filter(i => i !== replaced), info] };
+        });
+        this.mangoIndexes.set(`${def.ddoc}/${def.name}`, state);
+        if (replaced) await this.cleanupOldFiles(null, [replaced.fileId]);
+        this.log('Created Mango index', { name: def.name, rows: Object.keys(state.rows).length });
+        return { result: 'created', id: def.ddoc, name: def.name };
+    }
+
+    async getMangoIndexes(): Promise<MangoIndexInfo[]> {
+        await this.getIndexKeys();
+        return this.meta.mangoIndexes || [];
+    }
+
+    async deleteMangoIndex(ddoc: string, name: string): Promise<void> {
+        await this.getIndexKeys();
+        const ddocId = designDocId(ddoc);
+        const matches = (i: MangoIndexInfo) => i.ddoc === ddocId && i.name === name;
+        if (!(this.meta.mangoIndexes || []).some(matches)) throw indexNotFoundError();
+
+        let removed: MangoIndexInfo | undefined;
+        await this.atomicUpdateMeta(latest => {
+            const indexes = latest.mangoIndexes || [];
+            removed = indexes.find(matches);
+            return { ...latest, mangoIndexes: indexes.filter(i => i !== removed) };
+        });
+        this.mangoIndexes.delete(`${ddocId}/${name}`);
+        if (!removed) throw indexNotFoundError();
+        await this.cleanupOldFiles(null, [removed.fileId]);
+    }
+
+    /**
+     * Run a Mango query. With a usable index only the bodies of docs whose indexed
+     * values match are fetched; without one every body is, like pouchdb-find's
+     * `_all_docs` fallback.
+     */
+    async find(request: any): Promise<{ docs: any[], warning?: string }> {
+        if (!request || !request.selector || typeof request.selector !== 'object') throw queryError('selector is required');
+        await this.getIndexKeys();
+        const selector = massageSelector(request.selector);
+        const { index, warning } = selectIndex(this.meta.mangoIndexes || [], selector, request.use_index);
+
+        let ids: string[];
+        if (index) {
+            const rows = await this.mangoIndexRows(index);
+            ids = Object.keys(rows).filter(id => matchesIndexedFields(rows[id], index, selector));
+        } else {
+            ids = Object.keys(this.index).filter(id => isIndexable(id) && !this.index[id].deleted);
+        }
+        this.log('Find', { index: index ? index.name : '_all_docs', candidates: ids.length });
+        const docs = (await this.getMulti(ids)).filter(doc => doc);
+        return { docs: applyQuery(docs, selector, request), ...(warning ? { warning } : {}) };
+    }
+
+    /** Rows of a Mango index, brought up to date with the docs changed since its file was written */
+    private async mangoIndexRows(info: MangoIndexInfo): Promise<Record<string, any[]>> {
+        const key = `${info.ddoc}/${info.name}`;
+        let state = this.mangoIndexes.get(key);
+        // A newer file (another client compacted) replaces older in-memory rows
+        if (!state || (state.fileId !== info.fileId && info.seq > state.seq)) {
+            state = { fileId: info.fileId, seq: 0, rows: {} };
+            try {
+                const data: MangoIndexData = await this.downloadJson(info.fileId, true);
+                state.seq = data.seq;
+                state.rows = data.rows;
+            } catch (e: any) {
+                if (ENCRYPTION_ERRORS.includes(e.code)) throw e;
+                this.log('Failed to load Mango index, rebuilding it', info.name, e);
+            }
+            this.mangoIndexes.set(key, state);
+        }
+        await this.updateIndexRows(state, doc => indexRow(doc, info));
+        return state.rows;
+    }
+
+    /** Re-index the docs changed since `state.seq`, the way the change logs replay into the index */
+    private async updateIndexRows<T>(state: RowIndexState<T>, rowOf: (doc: any) => T | null): Promise<void> {
+        let seq = state.seq;
+        const changed: string[] = [];
+        for (const [id, entry] of Object.entries(this.index)) {
+            if (!isIndexable(id) || entry.seq <= state.seq) continue;
+            changed.push(id);
+            // Queued writes get their final seq when flushed, so they are looked at again
+            if (entry.location.fileId !== PENDING_LOCATION) seq = Math.max(seq, entry.seq);
+        }
+        for (const id of Object.keys(state.rows)) {
+            if (!this.index[id]) delete state.rows[id];
+        }
+        const docs = await this.getMulti(changed);
+        changed.forEach((id, i) => {
+            const row = docs[i] ? rowOf(docs[i]) : null;
+            if (row) state.rows[id] = row;
+            else delete state.rows[id];
+        });
+        state.seq = seq;
+    }
+
+    private async uploadMangoIndex(def: MangoIndexDefinition, state: RowIndexState<any[]>): Promise<MangoIndexInfo> {
+        const data: MangoIndexData = { seq: state.seq, rows: state.rows };
+        const { fileId, checksum } = await this.uploadDataFile(`mango-index-${Date.now()}.json`, 'application/json', JSON.stringify(data));
+        state.fileId = fileId;
+        const { ddoc, name, fields, partialFilterSelector } = def;
+        return { ddoc, name, fields, ...(partialFilterSelector ? { partialFilterSelector } : {}), fileId, seq: state.seq, checksum };
+    }
+
+    /** New files for the Mango indexes that changed since their file was written (all of them when rotating keys) */
+    private async rewriteMangoIndexes(all: boolean): Promise<IndexFileUpdate<MangoIndexInfo>[]> {
+        const updates: IndexFileUpdate<MangoIndexInfo>[] = [];
+        for (const previous of this.meta.mangoIndexes || []) {
+            await this.mangoIndexRows(previous);
+            const state = this.mangoIndexes.get(`${previous.ddoc}/${previous.name}`)!;
+            if (!all && state.fileId === previous.fileId && state.seq === previous.seq) continue;
+            updates.push({ previous, info: await this.uploadMangoIndex(previous, state) });
+        }
+        return updates;
+    }
+
+    /**
+     * Query a design doc view (`'ddoc/view'`) or a temporary view (a map function or
+     * `{ map, reduce }`). Design doc views are stored in a `view-index-*` file that
+     * `_meta.json` points at, so every client reuses the same rows; docs changed since
+     * the file was written are mapped again on each query.
+     */
+    async queryView(fun: any, opts: any = {}): Promise<any> {
+        await this.getIndexKeys();
+        let view: ViewDefinition;
+        let rows: Record<string, [any, any][]>;
+        if (typeof fun === 'string') {
+            // 'posts' is short for 'posts/posts'
+            const [ddocName, viewName = ddocName] = fun.replace(/^_design\//, '').split('/');
+            const ddocId = designDocId(ddocName);
+            const found = await this.designDocView(ddocId, viewName);
+            if (!found) throw missingViewError(`ddoc ${ddocId} has no view named ${viewName}`);
+            view = found;
+            rows = await this.viewIndexRows(ddocId, viewName, view);
+        } else {
+            // Temporary views are mapped from every doc and not stored
+            view = typeof fun === 'function'
+                ? { map: fun.toString() }
+                : { map: String(fun.map), ...(fun.reduce ? { reduce: String(fun.reduce) } : {}) };
+            const state: RowIndexState<[any, any][]> = { fileId: '', seq: 0, rows: {} };
+            await this.updateIndexRows(state, emitter(view));
+            rows = state.rows;
+        }
+
+        const result = queryRows(sortedRows(rows), view.reduce, opts);
+        if (opts.include_docs && result.total_rows !== undefined) {
+            // A `{ _id }` value links another doc, as in CouchDB
+            const ids = result.rows.map(r => r.value && typeof r.value === 'object' && r.value._id ? r.value._id : r.id);
+            const docs = await this.getMulti(ids);
+            result.rows.forEach((row, i) => row.doc = docs[i]);
+        }
+        return result;
+    }
+
+    /** Drop stored views whose design doc was deleted or no longer defines them the same way */
+    async viewCleanup(): Promise<void> {
+        await this.getIndexKeys();
+        const stale: ViewIndexInfo[] = [];
+        for (const info of this.meta.views || []) {
+            if (!await this.currentView(info)) stale.push(info);
+        }
+        if (stale.length === 0) return;
+        await this.atomicUpdateMeta(latest => ({
+            ...latest,
+            views: (latest.views || []).filter(v => !stale.some(s => s.fileId === v.fileId))
+        }));
+        await this.cleanupOldFiles(null, stale.map(v => v.fileId));
+    }
+
+    private async designDocView(ddocId: string, viewName: string): Promise<ViewDefinition | null> {
+        const [ddoc] = await this.getMulti([ddocId]);
+        const view = ddoc && ddoc.views && ddoc.views[viewName];
+        if (!view || !view.map) return null;
+        return { map: view.map, ...(view.reduce ? { reduce: view.reduce } : {}) };
+    }
+
+    /** The view a stored file was built for, or null when the file is stale */
+    private async currentView(info: ViewIndexInfo): Promise<ViewDefinition | null> {
+        const view = await this.designDocView(info.ddoc, info.view);
+        return view && await viewSignature(view) === info.signature ? view : null;
+    }
+
+    /** Rows of a design doc view, brought up to date; stored the first time they are built */
+    private async viewIndexRows(ddocId: string, viewName: string, view: ViewDefinition): Promise<Record<string, [any, any][]>> {
+        const key = `${ddocId}/${viewName}`;
+        const signature = await viewSignature(view);
+        const info = (this.meta.views || []).find(v => v.ddoc === ddocId && v.view === viewName && v.signature === signature);
+        let state = this.viewIndexes.get(key);
+        // Rows of other functions are useless, a newer file (another client compacted) replaces older rows
+        if (!state || state.signature !== signature || (info && state.fileId !== info.fileId && info.seq > state.seq)) {
+            state = { fileId: '', seq: 0, rows: {}, signature };
+            if (info) {
+                try {
+                    const data: ViewIndexData = await this.downloadJson(info.fileId, true);
+                    state = { fileId: info.fileId, seq: data.seq, rows: data.rows, signature };
+                } catch (e: any) {
+                    if (ENCRYPTION_ERRORS.includes(e.code)) throw e;
+                    this.log('Failed to load view index, rebuilding it', key, e);
+                }
+            }
+            this.viewIndexes.set(key, state);
+        }
+        await this.updateIndexRows(state, emitter(view));
+
+        if (!info) {
+            const stored = await this.uploadViewIndex(ddocId, viewName, state);
+            let replaced: ViewIndexInfo | undefined;
+            await this.atomicUpdateMeta(latest => {
+                const views = latest.views || [];
+                replaced = views.find(v => v.ddoc === ddocId && v.view === viewName);
+                return { ...latest, views: [...views.filter(v => v !== replaced), stored] };
+            });
+            if (replaced) await this.cleanupOldFiles(null, [replaced.fileId]);
+            this.log('Stored view index', { view: key, docs: Object.keys(state.rows).length });
+        }
+        return state.rows;
+    }
+
+    private async uploadViewIndex(ddoc: string, view: string, state: RowIndexState<[any, any][]> & { signature: string }): Promise<ViewIndexInfo> {
+        const data: ViewIndexData = { seq: state.seq, signature: state.signature, rows: state.rows };
+        const { fileId, checksum } = await this.uploadDataFile(`view-index-${Date.now()}.json`, 'application/json', JSON.stringify(data));
+        state.fileId = fileId;
+        return { ddoc, view, signature: state.signature, fileId, seq: state.seq, checksum };
+    }
+
+    /** New files for the views that changed since their file was written; stale views are dropped */
+    private async rewriteViewIndexes(all: boolean): Promise<IndexFileUpdate<ViewIndexInfo>[]> {
+        const updates: IndexFileUpdate<ViewIndexInfo>[] = [];
+        for (const previous of this.meta.views || []) {
+            const view = await this.currentView(previous);
+            if (!view) {
+                updates.push({ previous, info: null });
+                continue;
+            }
+            await this.viewIndexRows(previous.ddoc, previous.view, view);
+            const state = this.viewIndexes.get(`${previous.ddoc}/${previous.view}`)!;
+            if (!all && state.fileId === previous.fileId && state.seq === previous.seq) continue;
+            updates.push({ previous, info: await this.uploadViewIndex(previous.ddoc, previous.view, state) });
+        }
+        return updates;
+    }
+
+    /** Every file in the database folder, classified by its name, with its size */
+    async listDatabaseFiles(): Promise<DatabaseFile[]> {
+        if (!this.folderId) await this.load();
+        const files = await this.client.listFiles(`'${this.folderId}' in parents and trashed = false`, {
+            fields: 'id,name,modifiedTime,md5Checksum,size',
+            orderBy: 'name'
+        });
+        this.noteRemoteFiles(files);
+        return files.map(f => ({
+            fileId: f.id,
+            name: f.name,
+            kind: fileKind(f.name),
+            size: Number(f.size || 0),
+            ...(f.modifiedTime ? { modifiedTime: f.modifiedTime } : {})
+        }));
+    }
+
+    /**
+     * Delete change logs, snapshot files and attachment blobs that neither the
+     * current `_meta.json` nor its snapshot index references, once they are older
+     * than the grace period. `dryRun` only reports them.
+     */
+    async collectGarbage(options: { gracePeriodMs?: number, dryRun?: boolean } = {}): Promise<GarbageCollectionReport> {
+        if (!this.folderId) await this.load();
+        const gracePeriodMs = options.gracePeriodMs ?? this.options.gcGracePeriodMs ?? DEFAULT_GC_GRACE_PERIOD;
+        const cutoff = Date.now() - gracePeriodMs;
+
+        const files = await this.client.listFiles(`'${this.folderId}' in parents and trashed = false`);
+        this.noteRemoteFiles(files);
+        const metaFile = files.find(f => f.name === '_meta.json');
+        if (!metaFile) throw new Error('Garbage collection needs _meta.json');
+        // The latest meta, so logs other clients committed since our last load count
+        const meta = await this.readMeta(metaFile.id);
+
+        const referenced = new Set<string>(meta.changeLogIds);
+        if (meta.snapshotIndexId) referenced.add(meta.snapshotIndexId);
+        if ((meta as any).snapshotId) referenced.add((meta as any).snapshotId);
+        (meta.mangoIndexes || []).forEach(i => referenced.add(i.fileId));
+        (meta.views || []).forEach(v => referenced.add(v.fileId));
+
+        let chunks = this.snapshotChunks;
+        if (meta.snapshotIndexId && meta.snapshotIndexId !== this.currentSnapshotIndexId) {
+            const index: SnapshotIndex = await this.downloadJson(meta.snapshotIndexId);
+            chunks = index.chunks || this.chunksFromEntries(index.entries);
+        }
+        chunks.forEach(c => referenced.add(c.fileId));
+
+        // Blobs count as referenced under every key, so rotation leftovers go through compaction
+        const attachmentsKnown = chunks.every(c => c.digests);
+        if (attachmentsKnown) {
+            const digests = new Set<string>(chunks.flatMap(c => c.digests!));
+            for (const logId of meta.changeLogIds) {
+                const changes = await this.downloadNdjson(logId);
+                for (const change of Array.isArray(changes) ? changes : [changes as ChangeEntry]) collectDigests(change.doc, digests);
+            }
+            for (const change of this.pendingChanges) collectDigests(change.doc, digests);
+            for (const digest of digests) (await this.attachmentNames(digest)).forEach(name => referenced.add(name));
+        }
+
+        const orphans = files.filter(f =>
+            !referenced.has(f.id) &&
+            (GC_PREFIXES.some(prefix => f.name.startsWith(prefix)) ||
+                (attachmentsKnown && isAttachmentFileName(f.name) && !referenced.has(f.name)))
+        );
+        const expired = orphans.filter(f => !!f.modifiedTime && Date.parse(f.modifiedTime) < cutoff);
+        const report: GarbageCollectionReport = {
+            deleted: expired.map(f => ({ fileId: f.id, name: f.name, modifiedTime: f.modifiedTime })),
+            skipped: orphans.length - expired.length,
+            fileCount: files.length
+        };
+        this.log('Garbage collection', { orphans: orphans.length, expired: expired.length, dryRun: !!options.dryRun });
+
+        if (!options.dryRun && expired.length > 0) {
+            await this.cleanupOldFiles(null, expired.map(f => f.id));
+            const deletedIds = new Set(expired.map(f => f.id));
+            for (const [digest, fileId] of this.attachmentFiles) {
+                if (deletedIds.has(fileId)) this.attachmentFiles.delete(digest);
+            }
+        }
+        return report;
+    }
+
     // ... Helpers (atomicUpdateMeta, saveMeta, writeChangeFile same as before) ...
 
-    private async atomicUpdateMeta(modifier: (meta: MetaData) => MetaData): Promise<void> {
+    /** `rotated`: every file but the remaining change logs now uses the current key */
+    private async atomicUpdateMeta(modifier: (meta: MetaData) => MetaData, rotated: boolean = false): Promise<void> {
         const MAX_RETRIES = 5;
         let attempt = 0;
         while (attempt < MAX_RETRIES) {
             try {
                 const metaFile = await this.findFile('_meta.json');
                 if (!metaFile) throw new Error('Meta missing');
-                const validMeta = await this.downloadJson(metaFile.fileId, true); // No cache
+                const validMeta = await this.readMeta(metaFile.fileId); // No cache
                 const newMeta = modifier(validMeta);
-                await this.saveMeta(newMeta, metaFile.etag);
+                await this.saveMeta(newMeta, metaFile.etag, rotated);
                 this.meta = newMeta;
                 return;
             } catch (err: any) {
@@ -789,9 +2347,15 @@ export class DriveHandler {
     }
 
     // Reused helpers
+    /**
+     * The database folder. Lookups only see the configured Shared Drive or space, and
+     * with `parents` only the first parent; without them the client creates it in the
+     * drive root or in `appDataFolder`.
+     */
     private async findOrCreateFolder(): Promise<string> {
         const safeName = this.escapeQuery(this.folderName);
-        const q = `name = '${safeName}' and mimeType = 'application/vnd.google-apps.folder' and trashed = false`;
+        let q = `name = '${safeName}' and mimeType = 'application/vnd.google-apps.folder' and trashed = false`;
+        if (this.parents.length) q += ` and '${this.escapeQuery(this.parents[0])}' in parents`;
         const files = await this.client.listFiles(q);
         if (files.length > 0) return files[0].id;
 
@@ -839,40 +2403,233 @@ export class DriveHandler {
         return await this.fetchFile(fileId);
     }
 
-    private async writeChangeFile(changes: ChangeEntry[]): Promise<string> {
-        const lines = changes.map(c => JSON.stringify(c)).join('\n') + '\n';
+    /** Upload a change log; returns its ID, checksum and the byte range of every change in it */
+    private async writeChangeFile(changes: ChangeEntry[]): Promise<{ fileId: string, ranges: ByteRange[], checksum: FileChecksum }> {
+        const { content: lines, ranges } = packNdjson(changes);
         const startSeq = changes[0].seq;
         const name = `changes-${startSeq}-${Math.random().toString(36).substring(7)}.ndjson`;
 
-        const res = await this.client.createFile(
-            name,
-            [this.folderId!],
-            'application/x-ndjson',
-            lines
-        );
+        const { fileId, checksum } = await this.uploadDataFile(name, 'application/x-ndjson', lines);
 
         this.currentLogSizeEstimate += new Blob([lines]).size;
-        return res.id;
+        return { fileId, ranges, checksum };
+    }
+
+    /** Upload a new immutable data file; returns its ID and the checksums to record for it */
+    private async uploadDataFile(name: string, mimeType: string, content: string): Promise<{ fileId: string, checksum: FileChecksum }> {
+        const body = await this.encode(content);
+        const res = await this.client.createFile(name, [this.folderId!], this.mimeType(mimeType), body);
+        const bytes = typeof body === 'string' ? new TextEncoder().encode(body) : body;
+        return { fileId: res.id, checksum: { sha256: await digestOf(bytes), md5: res.md5Checksum } };
     }
 
-    private async saveMeta(meta: MetaData, expectedEtag: string | null = null): Promise<void> {
-        const content = JSON.stringify(meta);
+    private async saveMeta(meta: MetaData, expectedEtag: string | null = null, rotated: boolean = false): Promise<void> {
+        // Readers need the codec before they meet the first compressed file
+        if (this.options.compression) meta.codec = this.options.compression;
+        const content = await this.serializeMeta(meta, rotated);
         const metaFile = await this.findFile('_meta.json');
 
         if (metaFile) {
             const res = await this.client.updateFile(metaFile.fileId, content, expectedEtag || undefined);
             this.metaEtag = res.etag;
-            this.metaMd5 = (res as any).md5Checksum || null;
+            this.metaMd5 = res.md5Checksum || null;
             this.metaModifiedTime = res.modifiedTime;
             this.fileCache.remove(metaFile.fileId); // Invalidate cache
         } else {
             const res = await this.client.createFile('_meta.json', [this.folderId!], 'application/json', content);
             this.metaEtag = res.etag;
-            this.metaMd5 = (res as any).md5Checksum || null;
+            this.metaMd5 = res.md5Checksum || null;
             this.metaModifiedTime = res.modifiedTime;
         }
     }
 
+    /** Read `_meta.json`, checking the configured key against its header when encrypted */
+    private async readMeta(fileId: string): Promise<MetaData> {
+        const raw = await this.client.getFile(fileId);
+        const stored = typeof raw === 'string' ? JSON.parse(raw) : raw;
+        const header: EncryptionHeader | undefined = stored.encryption;
+        if (!header) {
+            if (this.encrypted) throw notEncryptedError();
+            return stored;
+        }
+        if (!this.encrypted) throw keyRequiredError();
+
+        if (!this.encryptionHeader || this.encryptionHeader.salt !== header.salt) this.keyringPromise = null;
+        this.encryptionHeader = header;
+        const keyring = await this.getKeyring();
+        if (!keyring.matches(header.keyChecks)) throw wrongKeyError();
+        return JSON.parse(decodeUtf8(await this.decryptFile(fileId, base64ToBytes(stored.data))));
+    }
+
+    /**
+     * Decrypt file content. When the ring holds every key meta's header lists, the
+     * key is known to be right, so content that fails authentication is damaged.
+     */
+    private async decryptFile(fileId: string, bytes: Uint8Array): Promise<Uint8Array> {
+        const keyring = await this.getKeyring();
+        try {
+            return await keyring.decrypt(bytes);
+        } catch (e: any) {
+            if (e.code === 'wrong_encryption_key' && this.encryptionHeader && keyring.coversAll(this.encryptionHeader.keyChecks)) {
+                throw corruptedFileError(fileId, 'authentication failed on decryption');
+            }
+            throw e;
+        }
+    }
+
+    /**
+     * With encryption, local cache entries are encrypted like files. Each keeps the
+     * plaintext header it was sealed under: opening the cached state needs its salt
+     * before meta is read. Cached bodies are stored under keyed hashes of their IDs.
+     */
+    private cacheCipher(): CacheCipher {
+        return {
+            seal: async (value) => {
+                if (!this.encryptionHeader) throw new Error('Cache entries need the encryption header of _meta.json');
+                const keyring = await this.getKeyring();
+                return { encryption: this.encryptionHeader, data: bytesToBase64(await keyring.encrypt(JSON.stringify(value))) };
+            },
+            open: async (sealed) => {
+                const header: EncryptionHeader | undefined = sealed && sealed.encryption;
+                if (!header || typeof sealed.data !== 'string') throw notEncryptedError();
+                if (!this.encryptionHeader) this.encryptionHeader = header;
+                else if (this.encryptionHeader.salt !== header.salt) throw wrongKeyError();
+                const keyring = await this.getKeyring();
+                if (!keyring.matches(header.keyChecks)) throw wrongKeyError();
+                return JSON.parse(decodeUtf8(await keyring.decrypt(base64ToBytes(sealed.data))));
+            },
+            name: async (id) => (await this.getKeyring()).cacheName(id)
+        };
+    }
+
+    /**
+     * `_meta.json` content. Encrypted meta is a plaintext header around the encrypted
+     * meta; the header lists the current key first among the keys files may use.
+     * Once a rotation compaction left no change logs behind, only the current key is.
+     */
+    private async serializeMeta(meta: MetaData, rotated: boolean): Promise<string> {
+        if (!this.encrypted) return JSON.stringify(meta);
+        const keyring = await this.getKeyring();
+        const inUse = rotated && meta.changeLogIds.length === 0 ? [] : (this.encryptionHeader ? this.encryptionHeader.keyChecks : []);
+        const header = keyring.header([keyring.keyCheck, ...inUse.filter(c => c !== keyring.keyCheck)]);
+        this.encryptionHeader = header;
+        return JSON.stringify({ encryption: header, data: bytesToBase64(await keyring.encrypt(JSON.stringify(meta))) });
+    }
+
+    private get encrypted(): boolean {
+        return !!this.options.encryption;
+    }
+
+    /** Keys derived for the database's salt (a new salt for a new database), once */
+    private getKeyring(): Promise<Keyring> {
+        if (!this.keyringPromise) {
+            this.keyringPromise = Keyring.create(this.options.encryption!, this.encryptionHeader || undefined);
+            this.keyringPromise.catch(() => { this.keyringPromise = null; });
+        }
+        return this.keyringPromise;
+    }
+
+    /** Whether some files may still be encrypted with a key other than the current one */
+    private async isRotatingKeys(): Promise<boolean> {
+        if (!this.encrypted || !this.encryptionHeader) return false;
+        const { keyCheck } = await this.getKeyring();
+        return this.encryptionHeader.keyChecks.some(c => c !== keyCheck);
+    }
+
+    /** Upload content: gzipped when compression is on (and `compress`), then encrypted when encryption is on */
+    private async encode(content: string | Uint8Array, compress: boolean = true): Promise<string | Uint8Array> {
+        let data = content;
+        if (compress && this.options.compression) {
+            const plain = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+            data = await gzip(plain);
+            this.log('Compressed', { bytes: plain.length, compressed: data.length, ratio: (data.length / plain.length).toFixed(2) });
+        }
+        if (!this.encrypted) return data;
+        return (await this.getKeyring()).encrypt(data);
+    }
+
+    /** Make sure `_meta.json` names the codec before files are compressed with it */
+    private async recordCodec(): Promise<void> {
+        if (!this.options.compression || this.meta.codec === this.options.compression) return;
+        // saveMeta adds the codec
+        await this.atomicUpdateMeta(latest => latest);
+    }
+
+    /** Mime type for an upload; encrypted files are opaque bytes */
+    private mimeType(plain: string, compress: boolean = true): string {
+        if (this.encrypted) return 'application/octet-stream';
+        return compress && this.options.compression ? 'application/gzip' : plain;
+    }
+
+    /**
+     * Download a file as text (or parsed JSON), decrypting it when encrypted. Once
+     * meta records a codec, files are read as bytes and inflated if gzipped, so
+     * files written before and after compression was turned on both load.
+     */
+    private async readContent(fileId: string): Promise<any> {
+        const checksum = this.checksumOf(fileId);
+        this.checkNotReplaced(fileId);
+        if (!checksum && !this.encrypted && !this.meta.codec) return this.client.getFile(fileId);
+        let bytes = await this.client.getFileBinary(fileId);
+        if (checksum && await digestOf(bytes) !== checksum.sha256) throw corruptedFileError(fileId, 'checksum mismatch');
+        if (this.encrypted) bytes = await this.decryptFile(fileId, bytes);
+        if (this.meta.codec && isGzip(bytes)) bytes = await gunzip(bytes);
+        return decodeUtf8(bytes);
+    }
+
+    /** Fail fast, without downloading, on data files a listing or the changes feed reported as replaced */
+    private checkNotReplaced(fileId: string): void {
+        const recorded = this.checksumOf(fileId);
+        const seen = this.remoteMd5.get(fileId);
+        if (this.changedFiles.has(fileId) || (recorded && recorded.md5 && seen && seen !== recorded.md5)) {
+            throw corruptedFileError(fileId, 'modified on Drive after upload');
+        }
+    }
+
+    /**
+     * Data files never change after upload; a different md5 in a listing or the
+     * changes feed means the content was replaced
+     */
+    private noteRemoteFiles(files: DriveFile[]): void {
+        for (const file of files) {
+            if (!file.md5Checksum) continue;
+            this.remoteMd5.set(file.id, file.md5Checksum);
+            const checksum = this.checksumOf(file.id);
+            if (checksum && checksum.md5 && file.md5Checksum !== checksum.md5) {
+                this.log('Data file modified after upload', file.id, file.name);
+                this.changedFiles.add(file.id);
+                this.fileCache.remove(file.id);
+            }
+        }
+    }
+
+    /**
+     * Slices cannot be hashed, so a file is only read in byte ranges when Drive's
+     * md5 of it matches the one recorded at upload. Unknown md5s are looked up once.
+     */
+    private async canReadRanges(fileId: string): Promise<boolean> {
+        const recorded = this.checksumOf(fileId);
+        if (!this.rangeReads || !recorded || !recorded.md5) return false;
+        if (!this.remoteMd5.has(fileId)) this.noteRemoteFiles([await this.client.getFileMetadata(fileId)]);
+        this.checkNotReplaced(fileId);
+        return this.remoteMd5.get(fileId) === recorded.md5;
+    }
+
+    /** Recorded checksums of a change log, snapshot index or snapshot chunk */
+    private checksumOf(fileId: string): FileChecksum | undefined {
+        const recorded = this.meta.checksums && this.meta.checksums[fileId];
+        if (recorded) return recorded;
+        const chunk = this.snapshotChunks.find(c => c.fileId === fileId);
+        if (chunk) return chunk.checksum;
+        const rows = [...(this.meta.mangoIndexes || []), ...(this.meta.views || [])].find(i => i.fileId === fileId);
+        return rows ? rows.checksum : undefined;
+    }
+
+    /** Byte ranges of packed files only address plain, uncompressed content */
+    private get rangeReads(): boolean {
+        return !this.encrypted && !this.meta.codec;
+    }
+
     private async countTotalChanges(): Promise<number> {
         // If no snapshot exists yet, total changes = meta.seq (all changes)
         if (!this.meta.snapshotIndexId) {
@@ -892,7 +2649,7 @@ export class DriveHandler {
     private async cleanupOldFiles(oldIndexId: string | null, oldLogIds: string[]): Promise<void> {
         const deleteFile = async (fileId: string) => {
             try {
-                await this.client.deleteFile(fileId);
+                await this.removeFile(fileId);
                 this.log('Deleted file', fileId);
             } catch (err: any) {
                 // 404 is ok - file already deleted or doesn't exist
@@ -900,7 +2657,8 @@ export class DriveHandler {
                     this.log('File already deleted or not found', fileId);
                     return;
                 }
-                // Log other errors but don't fail
+                // Log other errors (like a Shared Drive role that may not trash) but don't fail;
+                // garbage collection retries files left behind
                 this.log('Failed to delete file', fileId, err);
             }
         };
@@ -913,52 +2671,205 @@ export class DriveHandler {
         }
     }
 
-    private startPolling(intervalMs: number): void {
+    /**
+     * Delete attachment blobs referenced neither by the new snapshot nor by logs
+     * committed during compaction. Blobs uploaded after compaction started may
+     * belong to a write that has not committed yet, so they are kept.
+     */
+    private async cleanupAttachments(referenced: Set<string>, remainingLogs: string[], startedAt: number): Promise<void> {
+        try {
+            const fromLogs = new Set<string>();
+            for (const logId of remainingLogs) {
+                const changes = await this.downloadNdjson(logId);
+                const entries = Array.isArray(changes) ? changes : [changes as ChangeEntry];
+                for (const change of entries) collectDigests(change.doc, fromLogs);
+            }
+
+            // Blobs referenced by the snapshot exist under the current key; logs may
+            // still reference blobs under a previous one
+            const referencedNames = new Set<string>();
+            for (const digest of referenced) referencedNames.add((await this.attachmentNames(digest))[0]);
+            for (const digest of fromLogs) (await this.attachmentNames(digest)).forEach(n => referencedNames.add(n));
+            const q = `name contains 'attachment-' and '${this.folderId}' in parents and trashed = false`;
+            const files = await this.client.listFiles(q);
+            const orphans = files.filter(f =>
+                isAttachmentFileName(f.name) &&
+                !referencedNames.has(f.name) &&
+                !!f.modifiedTime && Date.parse(f.modifiedTime) < startedAt
+            );
+
+            if (orphans.length > 0) {
+                this.log('Deleting unreferenced attachments', orphans.length);
+                await this.cleanupOldFiles(null, orphans.map(f => f.id));
+                for (const [digest, fileId] of this.attachmentFiles) {
+                    if (orphans.some(f => f.id === fileId)) this.attachmentFiles.delete(digest);
+                }
+            }
+        } catch (e) {
+            // Leaving orphans behind is harmless, the next compaction retries
+            this.log('Attachment cleanup failed', e);
+        }
+    }
+
+    /**
+     * Poll for remote changes, adaptively: every idle tick doubles the interval up
+     * to `maxPollingIntervalMs`, any local or remote activity goes back to
+     * `pollingIntervalMs`. Polling pauses while the browser reports being offline.
+     */
+    private startPolling(): void {
+        const intervalMs = this.options.pollingIntervalMs || 0;
         this.log('Starting polling with interval', { intervalMs });
-        if (isNaN(intervalMs) || intervalMs <= 0) return;
-        if (this.pollingInterval) clearInterval(this.pollingInterval);
+        if (isNaN(intervalMs) || intervalMs <= 0 || this.pollingStopped) return;
 
-        this.pollingInterval = setInterval(async () => {
-            this.log('Polling tick...');
-            if (this.isPollingActive) {
-                this.log('Polling already in progress, skipping tick');
-                return;
+        this.watchChanges();
+        this.pollIntervalMs = intervalMs;
+        this.schedulePoll(intervalMs);
+    }
+
+    private get maxPollIntervalMs(): number {
+        const base = this.options.pollingIntervalMs || 0;
+        return Math.max(base, this.options.maxPollingIntervalMs || base * DEFAULT_POLLING_BACKOFF);
+    }
+
+    private schedulePoll(delayMs: number): void {
+        if (this.pollingTimer) clearTimeout(this.pollingTimer);
+        this.nextPollAt = Date.now() + delayMs;
+        this.pollingTimer = setTimeout(() => this.pollTick(), delayMs);
+    }
+
+    private async pollTick(): Promise<void> {
+        this.pollingTimer = null;
+        this.log('Polling tick...');
+        if (this.isOffline()) {
+            this.pausePolling();
+            return;
+        }
+
+        let changed = false;
+        this.isPollingActive = true;
+        try {
+            // Until a cached open has been reconciled, every tick retries the full load.
+            // Ticks of other databases poll the shared feed too; skip if one just did
+            changed = this.servingFromCache
+                || (this.unwatchChanges
+                    ? await this.pollChangeFeed(this.options.pollingIntervalMs! / 2)
+                    : await this.checkMetaFile());
+            this.lastPollAt = Date.now();
+
+            if (changed) {
+                this.log('Polling detected change!');
+                await this.load();
+                this.notifyListeners();
             }
-            this.isPollingActive = true;
-            try {
-                const metaFile = await this.findFile('_meta.json');
-                if (!metaFile) {
-                    this.log('Polling: _meta.json not found');
-                    return;
-                }
+            if (this.pendingChanges.length > 0) await this.flushPendingChanges();
+        } catch (err) {
+            this.log('Polling error', err);
+        } finally {
+            this.isPollingActive = false;
+        }
 
-                // Compare etags, falling back to md5Checksum or modifiedTime
-                const remoteEtag = metaFile.etag;
-                const remoteMd5 = metaFile.md5Checksum;
-                const remoteModified = metaFile.modifiedTime;
+        if (this.pollingStopped || this.pollingTimer) return;
+        this.pollIntervalMs = changed
+            ? this.options.pollingIntervalMs!
+            : Math.min(this.maxPollIntervalMs, this.pollIntervalMs! * 2);
+        this.schedulePoll(this.pollIntervalMs);
+    }
 
-                this.log('Polling: comparing etag', remoteEtag, 'with', this.metaEtag, 'md5', remoteMd5, 'with', this.metaMd5);
+    /** Local or remote activity: poll at the base interval again, starting soon */
+    private resetPollingInterval(): void {
+        if (this.pollIntervalMs === null || this.pollingStopped || this.pollingPaused) return;
+        const base = this.options.pollingIntervalMs!;
+        this.pollIntervalMs = base;
+        if (!this.isPollingActive && this.nextPollAt > Date.now() + base) this.schedulePoll(base);
+    }
 
-                let changed = false;
-                if (remoteEtag && this.metaEtag) {
-                    if (remoteEtag !== this.metaEtag) changed = true;
-                } else if (remoteMd5 && this.metaMd5) {
-                    if (remoteMd5 !== this.metaMd5) changed = true;
-                } else if (remoteModified !== this.metaModifiedTime) {
-                    changed = true;
-                }
+    private isOffline(): boolean {
+        return typeof navigator !== 'undefined' && navigator.onLine === false;
+    }
 
-                if (changed) {
-                    this.log('Polling detected change!', remoteEtag || remoteMd5 || remoteModified);
-                    await this.load();
-                    this.notifyListeners();
-                }
-            } catch (err) {
-                this.log('Polling error', err);
-            } finally {
-                this.isPollingActive = false;
+    /** Wait for the browser's `online` event; without one, look again after the longest interval */
+    private pausePolling(): void {
+        this.log('Offline, polling paused');
+        this.pollingPaused = true;
+        if (typeof addEventListener !== 'function') {
+            this.schedulePoll(this.maxPollIntervalMs);
+            return;
+        }
+        if (this.onlineListener) return;
+        this.onlineListener = () => {
+            removeEventListener('online', this.onlineListener);
+            this.onlineListener = null;
+            this.pollingPaused = false;
+            if (this.pollingStopped) return;
+            this.log('Back online, polling resumed');
+            this.pollIntervalMs = this.options.pollingIntervalMs!;
+            this.schedulePoll(0);
+        };
+        addEventListener('online', this.onlineListener);
+    }
+
+    /** Current polling schedule, so apps can show how fresh their view of Drive is */
+    getPollingStatus(): PollingStatus {
+        return {
+            active: this.pollIntervalMs !== null && !this.pollingStopped,
+            paused: this.pollingPaused,
+            intervalMs: this.pollingStopped ? null : this.pollIntervalMs,
+            lastCheckAt: this.lastPollAt
+        };
+    }
+
+    /** Subscribe to the shared changes feed; until that succeeds, ticks search for _meta.json instead */
+    private watchChanges(): void {
+        if (this.unwatchChanges || !this.folderId) return;
+        const feed = DriveChangeFeed.shared(this.client, this.options.accessToken, this.clientOptions.baseUrl || '', this.feedScope);
+        feed.watch(this.folderId, files => this.onRemoteFiles(files)).then(unwatch => {
+            if (this.pollingStopped) {
+                unwatch();
+                return;
             }
-        }, intervalMs);
+            this.changeFeed = feed;
+            this.unwatchChanges = unwatch;
+        }).catch(err => {
+            this.log('Changes feed unavailable, falling back to meta file checks', err);
+        });
+    }
+
+    private onRemoteFiles(files: DriveFile[]): void {
+        this.noteRemoteFiles(files);
+
+        const meta = files.find(f => f.name === '_meta.json' && !f.trashed);
+        if (!meta) return;
+        // Our own commits show up in the feed as well
+        const changed = meta.md5Checksum && this.metaMd5
+            ? meta.md5Checksum !== this.metaMd5
+            : meta.modifiedTime !== this.metaModifiedTime;
+        if (changed) this.remoteMetaChanged = true;
+    }
+
+    private async pollChangeFeed(maxAgeMs: number): Promise<boolean> {
+        await this.changeFeed!.poll(maxAgeMs);
+        const changed = this.remoteMetaChanged;
+        this.remoteMetaChanged = false;
+        return changed;
+    }
+
+    /** Search for _meta.json and compare etags, falling back to md5Checksum or modifiedTime */
+    private async checkMetaFile(): Promise<boolean> {
+        const metaFile = await this.findFile('_meta.json');
+        if (!metaFile) {
+            this.log('Polling: _meta.json not found');
+            return false;
+        }
+
+        const remoteEtag = metaFile.etag;
+        const remoteMd5 = metaFile.md5Checksum;
+        const remoteModified = metaFile.modifiedTime;
+
+        this.log('Polling: comparing etag', remoteEtag, 'with', this.metaEtag, 'md5', remoteMd5, 'with', this.metaMd5);
+
+        if (remoteEtag && this.metaEtag) return remoteEtag !== this.metaEtag;
+        if (remoteMd5 && this.metaMd5) return remoteMd5 !== this.metaMd5;
+        return remoteModified !== this.metaModifiedTime;
     }
 
     private notifyListeners(changedDocs?: Record<string, any>) {
@@ -985,12 +2896,48 @@ export class DriveHandler {
         };
     }
 
-    stopPolling() { if (this.pollingInterval) clearInterval(this.pollingInterval); }
+    stopPolling() {
+        this.pollingStopped = true;
+        if (this.pollingTimer) clearTimeout(this.pollingTimer);
+        this.pollingTimer = null;
+        if (this.onlineListener) removeEventListener('online', this.onlineListener);
+        this.onlineListener = null;
+        if (this.unwatchChanges) this.unwatchChanges();
+        this.unwatchChanges = null;
+        this.changeFeed = null;
+    }
+
+    /** Stop polling and wait for the local cache to be written */
+    async close(): Promise<void> {
+        this.stopPolling();
+        await this.flushWriteBatch();
+        if (this.localCache) await this.localCache.flush();
+    }
+
+    /** Remove this database from the local cache */
+    async clearLocalCache(): Promise<void> {
+        const localCache = await this.openLocalCache();
+        if (localCache) await localCache.clear();
+    }
 
     private escapeQuery(value: string): string {
         return value.replace(/'/g, "\\'");
     }
 
-    async deleteFolder() { if (this.folderId) await this.client.deleteFile(this.folderId); }
-    getNextSeq() { return this.meta.seq + 1; }
+    async deleteFolder() { if (this.folderId) await this.removeFile(this.folderId); }
+
+    /** The changes feed to watch: the Shared Drive's, the app data space's or My Drive's */
+    private get feedScope(): string | undefined {
+        return this.options.driveId || (this.options.space === 'appDataFolder' ? 'appDataFolder' : undefined);
+    }
+
+    /**
+     * Delete a file we no longer need. In a Shared Drive it is trashed instead: only
+     * organizers may delete for good, content managers may trash, and Drive empties
+     * the trash after 30 days.
+     */
+    private removeFile(fileId: string): Promise<void> {
+        return this.options.driveId ? this.client.trashFile(fileId) : this.client.deleteFile(fileId);
+    }
+    getNextSeq() { return this.meta.seq + this.pendingChanges.length + 1; }
 }
@@ -0,0 +1,164 @@
+import { base64ToBytes, bytesToBase64 } from './attachments';
+import { EncryptionHeader, EncryptionKeyOptions, EncryptionOptions } from './types';
+
+/**
+ * Client-side encryption of database files.
+ *
+ * Every file is encrypted whole with AES-GCM: `[version][12-byte IV][ciphertext]`.
+ * Keys are derived with HKDF from a raw 256-bit key or from a passphrase run
+ * through PBKDF2 with the database's salt. Each key has a key-check value,
+ * stored in `_meta.json`, that tells a wrong key apart from a right one.
+ */
+
+const FORMAT_VERSION = 1;
+const IV_LENGTH = 12;
+const SALT_LENGTH = 16;
+const DEFAULT_ITERATIONS = 310000;
+const textEncoder = new TextEncoder();
+
+interface DerivedKey {
+    aes: CryptoKey;
+    names: CryptoKey;
+    check: string;
+}
+
+function encryptionError(name: string, status: number, code: string, message: string): Error {
+    const err: any = new Error(message);
+    err.name = name;
+    err.status = status;
+    err.code = code;
+    return err;
+}
+
+export function wrongKeyError(): Error {
+    return encryptionError('unauthorized', 401, 'wrong_encryption_key', 'The encryption key does not match this database');
+}
+
+export function keyRequiredError(): Error {
+    return encryptionError('unauthorized', 401, 'encryption_key_required', 'This database is encrypted, an encryption key is required');
+}
+
+export function notEncryptedError(): Error {
+    return encryptionError('bad_request', 400, 'database_not_encrypted', 'This database was created without encryption');
+}
+
+/** The current key plus previous keys that may still be needed to read older files */
+export class Keyring {
+    private constructor(
+        private current: DerivedKey,
+        private previous: DerivedKey[],
+        private salt: string,
+        private iterations: number
+    ) { }
+
+    /** Derive the keys in `options`, using the salt in `header` or a new one */
+    static async create(options: EncryptionOptions, header?: EncryptionHeader): Promise<Keyring> {
+        const salt = header ? header.salt : bytesToBase64(crypto.getRandomValues(new Uint8Array(SALT_LENGTH)));
+        const iterations = header ? header.iterations : DEFAULT_ITERATIONS;
+        const derive = (key: EncryptionKeyOptions) => deriveKey(key, base64ToBytes(salt), iterations);
+        return new Keyring(
+            await derive(options),
+            await Promise.all((options.previousKeys || []).map(derive)),
+            salt,
+            iterations
+        );
+    }
+
+    get keyCheck(): string {
+        return this.current.check;
+    }
+
+    /** Whether any key on this ring has one of the given key-check values */
+    matches(keyChecks: string[]): boolean {
+        return [this.current, ...this.previous].some(k => keyChecks.includes(k.check));
+    }
+
+    /** Whether this ring holds a key for every one of the given key-check values */
+    coversAll(keyChecks: string[]): boolean {
+        return keyChecks.every(check => [this.current, ...this.previous].some(k => k.check === check));
+    }
+
+    header(keyChecks: string[]): EncryptionHeader {
+        return { algorithm: 'AES-GCM', salt: this.salt, iterations: this.iterations, keyChecks };
+    }
+
+    async encrypt(content: string | Uint8Array): Promise<Uint8Array> {
+        const plain = typeof content === 'string' ? textEncoder.encode(content) : content;
+        const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+        const cipher = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, this.current.aes, plain as BufferSource));
+        const out = new Uint8Array(1 + IV_LENGTH + cipher.length);
+        out[0] = FORMAT_VERSION;
+        out.set(iv, 1);
+        out.set(cipher, 1 + IV_LENGTH);
+        return out;
+    }
+
+    /** Decrypt with whichever key on the ring encrypted `bytes` */
+    async decrypt(bytes: Uint8Array): Promise<Uint8Array> {
+        if (bytes[0] !== FORMAT_VERSION) throw wrongKeyError();
+        const iv = bytes.subarray(1, 1 + IV_LENGTH);
+        const cipher = bytes.subarray(1 + IV_LENGTH);
+        for (const key of [this.current, ...this.previous]) {
+            try {
+                return new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: iv as BufferSource }, key.aes, cipher as BufferSource));
+            } catch (e) {
+                // Authentication failed: not this key
+            }
+        }
+        throw wrongKeyError();
+    }
+
+    /** Keyed attachment file name, so names do not reveal content digests */
+    async attachmentName(digest: string): Promise<string> {
+        return nameFor(this.current, digest);
+    }
+
+    /** Names the attachment may still have under previous keys */
+    async previousAttachmentNames(digest: string): Promise<string[]> {
+        return Promise.all(this.previous.map(k => nameFor(k, digest)));
+    }
+
+    /** Keyed hash of a doc ID, so local cache keys do not reveal it */
+    async cacheName(id: string): Promise<string> {
+        return keyedHex(this.current, 'cache/' + id);
+    }
+}
+
+async function nameFor(key: DerivedKey, digest: string): Promise<string> {
+    return 'attachment-' + await keyedHex(key, digest);
+}
+
+async function keyedHex(key: DerivedKey, text: string): Promise<string> {
+    const mac = new Uint8Array(await crypto.subtle.sign('HMAC', key.names, textEncoder.encode(text)));
+    let hex = '';
+    for (const b of mac) hex += b.toString(16).padStart(2, '0');
+    return hex;
+}
+
+async function deriveKey(options: EncryptionKeyOptions, salt: Uint8Array, iterations: number): Promise<DerivedKey> {
+    let master: Uint8Array;
+    if (options.key) {
+        master = typeof options.key === 'string' ? base64ToBytes(options.key) : options.key;
+        if (master.length !== 32) throw new Error('Encryption key must be 32 bytes');
+    } else if (options.passphrase) {
+        const material = await crypto.subtle.importKey('raw', textEncoder.encode(options.passphrase), 'PBKDF2', false, ['deriveBits']);
+        master = new Uint8Array(await crypto.subtle.deriveBits(
+            { name: 'PBKDF2', hash: 'SHA-256', salt: salt as BufferSource, iterations },
+            material,
+            256
+        ));
+    } else {
+        throw new Error('Encryption requires a key or a passphrase');
+    }
+
+    const hkdf = await crypto.subtle.importKey('raw', master as BufferSource, 'HKDF', false, ['deriveKey']);
+    const params = (info: string) => ({ name: 'HKDF', hash: 'SHA-256', salt: salt as BufferSource, info: textEncoder.encode(info) });
+    const hmac = { name: 'HMAC', hash: 'SHA-256', length: 256 };
+
+    const aes = await crypto.subtle.deriveKey(params('pouchdb-googledrive/encrypt'), hkdf, { name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+    const names = await crypto.subtle.deriveKey(params('pouchdb-googledrive/names'), hkdf, hmac, false, ['sign']);
+    const checkKey = await crypto.subtle.deriveKey(params('pouchdb-googledrive/check'), hkdf, hmac, false, ['sign']);
+    const check = new Uint8Array(await crypto.subtle.sign('HMAC', checkKey, textEncoder.encode('key-check')));
+
+    return { aes, names, check: bytesToBase64(check.subarray(0, 16)) };
+}
@@ -4,6 +4,7 @@ import { GoogleDriveAdapterOptions } from './types';
 
 // Export types
 export * from './types';
+export { FileSystemStore, IndexedDBStore } from './localcache';
 
 /**
  * Google Drive Adapter Plugin Factory
@@ -0,0 +1,270 @@
+import { ChangeEntry, EncryptionHeader, GoogleDriveAdapterOptions, IndexEntry, LocalCacheStore, MetaData, SnapshotChunkInfo } from './types';
+
+/** Global IndexedDB factory for browser environments */
+declare const indexedDB: any;
+
+const DEFAULT_CACHE_DIR = '.pouchdb-googledrive-cache';
+const IDB_NAME = 'pouchdb-googledrive-cache';
+const IDB_STORE = 'entries';
+
+/** Handler state saved to the local cache */
+export interface CachedState {
+    folderId: string;
+    meta: MetaData;
+    metaEtag: string | null;
+    metaMd5: string | null;
+    metaModifiedTime: string | null;
+    localDocsEtag: string | null;
+    currentSnapshotIndexId: string | null;
+    index: Record<string, IndexEntry>;
+    processedLogIds: string[];
+    snapshotChunks: SnapshotChunkInfo[];
+    /** Header of an encrypted `_meta.json`, to check the key when opening from the cache */
+    encryption?: EncryptionHeader | null;
+    /** Index entries that no longer match the snapshot index (needed by incremental compaction) */
+    changedSinceSnapshot: string[];
+    savedAt: number;
+}
+
+/** Encrypts what the local cache stores, and hides doc IDs in the keys of cached bodies */
+export interface CacheCipher {
+    seal(value: any): Promise<any>;
+    open(sealed: any): Promise<any>;
+    name(id: string): Promise<string>;
+}
+
+/** The store selected by the `localCache` option, or null when caching is off */
+export function createLocalCacheStore(options: GoogleDriveAdapterOptions): LocalCacheStore | null {
+    const { localCache } = options;
+    if (!localCache) return null;
+    if (typeof localCache === 'object') return localCache;
+    if (typeof indexedDB !== 'undefined') return new IndexedDBStore();
+    return new FileSystemStore(options.localCacheDir || DEFAULT_CACHE_DIR);
+}
+
+/**
+ * Local cache of one database: the handler state plus the most recently used
+ * bodies, keyed by `namespace` so several databases can share a store.
+ */
+export class LocalCache {
+    // Cached bodies, id -> rev, least recently used first
+    private bodies: Map<string, string> | null = null;
+    private pendingBodies: Promise<Map<string, string>> | null = null;
+    private bodiesDirty = false;
+    private nextState: (() => CachedState | null) | null = null;
+    private saving: Promise<void> | null = null;
+    private pendingWrites: Set<Promise<void>> = new Set();
+    private outboxWrite: Promise<void> = Promise.resolve();
+
+    constructor(
+        private store: LocalCacheStore,
+        private namespace: string,
+        private maxBodies: number,
+        private cipher: CacheCipher | null = null
+    ) { }
+
+    private key(name: string): string {
+        return `${this.namespace}/${name}`;
+    }
+
+    private async read(name: string): Promise<any | undefined> {
+        const value = await this.store.get(this.key(name));
+        return value === undefined || !this.cipher ? value : this.cipher.open(value);
+    }
+
+    private async write(name: string, value: any): Promise<void> {
+        await this.store.set(this.key(name), this.cipher ? await this.cipher.seal(value) : value);
+    }
+
+    private async bodyName(id: string): Promise<string> {
+        return `doc/${this.cipher ? await this.cipher.name(id) : id}`;
+    }
+
+    async loadState(): Promise<CachedState | null> {
+        return (await this.read('state')) || null;
+    }
+
+    /**
+     * Save the state built by `snapshot`, unless it returns null. Saves run one at a
+     * time; calls made while one runs are merged into a single follow-up save.
+     */
+    saveState(snapshot: () => CachedState | null): Promise<void> {
+        this.nextState = snapshot;
+        return this.saveAll();
+    }
+
+    /** Wait for pending saves and body writes */
+    async flush(): Promise<void> {
+        await Promise.all(this.pendingWrites);
+        await this.outboxWrite.catch(() => { });
+        await this.saveAll();
+    }
+
+    async loadOutbox(): Promise<ChangeEntry[]> {
+        return (await this.read('outbox')) || [];
+    }
+
+    /** Save the queued changes. Resolves once they are stored; writes keep call order */
+    saveOutbox(changes: ChangeEntry[]): Promise<void> {
+        const value = [...changes];
+        const write = this.outboxWrite.catch(() => { }).then(() => this.write('outbox', value));
+        this.outboxWrite = write;
+        return write;
+    }
+
+    private saveAll(): Promise<void> {
+        if (!this.saving) {
+            this.saving = (async () => {
+                try {
+                    while (this.nextState || this.bodiesDirty) {
+                        if (this.nextState) {
+                            const state = this.nextState();
+                            this.nextState = null;
+                            if (state) await this.write('state', state);
+                        }
+                        if (this.bodiesDirty) {
+                            this.bodiesDirty = false;
+                            await this.write('bodies', [...this.bodies!]);
+                        }
+                    }
+                } finally {
+                    this.saving = null;
+                }
+            })();
+        }
+        return this.saving;
+    }
+
+    /** Cached body of `id` at `rev`, or null */
+    async getBody(id: string, rev: string): Promise<any | null> {
+        const bodies = await this.bodyList();
+        if (bodies.get(id) !== rev) return null;
+        const cached = await this.read(await this.bodyName(id));
+        if (!cached || cached.rev !== rev) return null;
+
+        bodies.delete(id);
+        bodies.set(id, rev);
+        this.bodiesDirty = true;
+        return cached.doc;
+    }
+
+    putBody(id: string, rev: string, doc: any): Promise<void> {
+        const write = (async () => {
+            const bodies = await this.bodyList();
+            await this.write(await this.bodyName(id), { rev, doc });
+            bodies.delete(id);
+            bodies.set(id, rev);
+            while (bodies.size > this.maxBodies) {
+                const oldest = bodies.keys().next().value!;
+                bodies.delete(oldest);
+                await this.store.delete(this.key(await this.bodyName(oldest)));
+            }
+            this.bodiesDirty = true;
+            await this.saveAll();
+        })();
+        const tracked = write.catch(() => { }).then(() => { this.pendingWrites.delete(tracked); });
+        this.pendingWrites.add(tracked);
+        return write;
+    }
+
+    /** Remove everything cached for this database */
+    async clear(): Promise<void> {
+        await this.flush();
+        const bodies = await this.bodyList();
+        for (const id of bodies.keys()) await this.store.delete(this.key(await this.bodyName(id)));
+        bodies.clear();
+        await this.store.delete(this.key('bodies'));
+        await this.store.delete(this.key('state'));
+        await this.store.delete(this.key('outbox'));
+    }
+
+    private bodyList(): Promise<Map<string, string>> {
+        if (this.bodies) return Promise.resolve(this.bodies);
+        if (!this.pendingBodies) {
+            this.pendingBodies = (async () => {
+                // A list that cannot be read (e.g. written before encryption was on) starts over
+                const list: [string, string][] = (await this.read('bodies').catch(() => undefined)) || [];
+                this.bodies = new Map(list);
+                return this.bodies;
+            })();
+        }
+        return this.pendingBodies;
+    }
+}
+
+/** One JSON file per key (Node) */
+export class FileSystemStore implements LocalCacheStore {
+    constructor(private dir: string) { }
+
+    // Loaded on first use so browser bundles never evaluate it
+    private get fs() {
+        return require('fs').promises;
+    }
+
+    private file(key: string): string {
+        return require('path').join(this.dir, encodeURIComponent(key) + '.json');
+    }
+
+    async get(key: string): Promise<any | undefined> {
+        try {
+            return JSON.parse(await this.fs.readFile(this.file(key), 'utf8'));
+        } catch (e: any) {
+            if (e.code === 'ENOENT') return undefined;
+            throw e;
+        }
+    }
+
+    async set(key: string, value: any): Promise<void> {
+        await this.fs.mkdir(this.dir, { recursive: true });
+        // Write then rename, so a crash never leaves a truncated entry
+        const file = this.file(key);
+        const tmp = `${file}.${Math.random().toString(36).substring(2)}.tmp`;
+        await this.fs.writeFile(tmp, JSON.stringify(value));
+        await this.fs.rename(tmp, file);
+    }
+
+    async delete(key: string): Promise<void> {
+        await this.fs.rm(this.file(key), { force: true });
+    }
+}
+
+/** A single object store in an IndexedDB database (browsers) */
+export class IndexedDBStore implements LocalCacheStore {
+    private db: Promise<any> | null = null;
+
+    constructor(private name: string = IDB_NAME) { }
+
+    get(key: string): Promise<any | undefined> {
+        return this.request('readonly', store => store.get(key));
+    }
+
+    async set(key: string, value: any): Promise<void> {
+        await this.request('readwrite', store => store.put(value, key));
+    }
+
+    async delete(key: string): Promise<void> {
+        await this.request('readwrite', store => store.delete(key));
+    }
+
+    private open(): Promise<any> {
+        if (!this.db) {
+            this.db = new Promise((resolve, reject) => {
+                const req = indexedDB.open(this.name, 1);
+                req.onupgradeneeded = () => req.result.createObjectStore(IDB_STORE);
+                req.onsuccess = () => resolve(req.result);
+                req.onerror = () => reject(req.error);
+            });
+        }
+        return this.db;
+    }
+
+    private async request(mode: 'readonly' | 'readwrite', run: (store: any) => any): Promise<any> {
+        const db = await this.open();
+        return new Promise((resolve, reject) => {
+            const tx = db.transaction(IDB_STORE, mode);
+            const req = run(tx.objectStore(IDB_STORE));
+            tx.oncomplete = () => resolve(req.result);
+            tx.onerror = () => reject(tx.error);
+        });
+    }
+}
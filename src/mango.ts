@@ -0,0 +1,156 @@
+import {
+    filterInMemoryFields,
+    getFieldFromDoc,
+    matchesSelector,
+    parseField,
+    rowFilter,
+    setFieldInDoc
+} from 'pouchdb-selector-core';
+import { MangoIndexInfo } from './types';
+
+/**
+ * Mango query helpers: index definitions, index rows, choosing an index for a
+ * selector and the in-memory part of `find` (matching, sorting, paging and
+ * field projection). Selector semantics are pouchdb-find's, from pouchdb-selector-core.
+ */
+
+export type MangoIndexDefinition = Pick<MangoIndexInfo, 'ddoc' | 'name' | 'fields' | 'partialFilterSelector'>;
+
+export const NO_INDEX_WARNING = 'No matching index found, create an index to optimize query time.';
+
+/** Operators that only match docs where the field exists */
+const EXISTENCE_OPERATORS = ['$eq', '$gt', '$gte', '$lt', '$lte', '$in', '$all', '$size', '$mod', '$regex', '$elemMatch', '$allMatch', '$type'];
+
+function mangoError(name: string, status: number, message: string): Error {
+    const err: any = new Error(message);
+    err.name = name;
+    err.status = status;
+    return err;
+}
+
+export function queryError(message: string): Error {
+    return mangoError('bad_request', 400, message);
+}
+
+export function indexNotFoundError(): Error {
+    return mangoError('not_found', 404, 'could not find that index');
+}
+
+/** Documents that can be indexed and queried: not `_local` docs, not design docs */
+export function isIndexable(id: string): boolean {
+    return !id.startsWith('_local/') && !id.startsWith('_design/');
+}
+
+export function designDocId(ddoc: string): string {
+    return ddoc.startsWith('_design/') ? ddoc : '_design/' + ddoc;
+}
+
+/** Validate the `index` of a `createIndex` request; unnamed indexes are named after their definition */
+export function indexDefinition(index: any): MangoIndexDefinition {
+    if (!index || !Array.isArray(index.fields) || index.fields.length === 0) {
+        throw queryError('index.fields must be a non-empty array');
+    }
+    if (index.type && index.type !== 'json') throw queryError(`Unsupported index type: ${index.type}`);
+    const fields = normalizeSort(index.fields);
+    const partialFilterSelector = index.partial_filter_selector;
+    const hash = 'idx-' + hashOf(JSON.stringify({ fields, partialFilterSelector }));
+    return {
+        ddoc: designDocId(index.ddoc || hash),
+        name: index.name || hash,
+        fields,
+        ...(partialFilterSelector ? { partialFilterSelector } : {})
+    };
+}
+
+export function sameDefinition(a: MangoIndexDefinition, b: MangoIndexDefinition): boolean {
+    return JSON.stringify(a.fields) === JSON.stringify(b.fields) &&
+        JSON.stringify(a.partialFilterSelector || null) === JSON.stringify(b.partialFilterSelector || null);
+}
+
+function fieldNames(def: MangoIndexDefinition): string[] {
+    return def.fields.map(f => Object.keys(f)[0]);
+}
+
+/** The indexed values of `doc`, or null when the index leaves it out */
+export function indexRow(doc: any, def: MangoIndexDefinition): any[] | null {
+    if (def.partialFilterSelector && !matchesSelector(doc, def.partialFilterSelector)) return null;
+    const values = fieldNames(def).map(name => getFieldFromDoc(doc, parseField(name)));
+    return values.some(v => v === undefined) ? null : values;
+}
+
+/**
+ * The index to answer a (massaged) selector with. An index only holds docs that
+ * have all of its fields, so it is only used when the selector requires every one
+ * of them; the one with the most fields wins. Partial indexes must be asked for
+ * with `use_index`.
+ */
+export function selectIndex(indexes: MangoIndexInfo[], selector: Record<string, any>, useIndex?: string | string[]): { index: MangoIndexInfo | null, warning?: string } {
+    const usable = (def: MangoIndexInfo) => fieldNames(def).every(name => requiresField(selector[name]));
+    if (useIndex) {
+        const [ddoc, name] = Array.isArray(useIndex) ? useIndex : [useIndex];
+        const wanted = indexes.find(i => i.ddoc === designDocId(ddoc) && (!name || i.name === name));
+        if (wanted && usable(wanted)) return { index: wanted };
+        const fallback = selectIndex(indexes, selector);
+        return { index: fallback.index, warning: `${[ddoc, name].filter(Boolean).join(', ')} was not used because it does not contain a valid index for this query.` };
+    }
+    const candidates = indexes.filter(i => !i.partialFilterSelector && usable(i));
+    if (candidates.length === 0) return { index: null, warning: NO_INDEX_WARNING };
+    return { index: candidates.reduce((best, i) => i.fields.length > best.fields.length ? i : best) };
+}
+
+function requiresField(matcher: any): boolean {
+    if (!matcher || typeof matcher !== 'object') return false;
+    return Object.keys(matcher).some(op => EXISTENCE_OPERATORS.includes(op) || (op === '$exists' && matcher[op] === true));
+}
+
+/** Whether a row's indexed values satisfy the selector's conditions on those fields */
+export function matchesIndexedFields(row: any[], def: MangoIndexDefinition, selector: Record<string, any>): boolean {
+    const doc: Record<string, any> = {};
+    const names = fieldNames(def);
+    names.forEach((name, i) => setFieldInDoc(doc, parseField(name), row[i]));
+    return rowFilter(doc, selector, names.filter(name => name in selector));
+}
+
+/** Filter `docs` with a massaged selector, then sort, page and project them as requested */
+export function applyQuery(docs: any[], selector: Record<string, any>, request: any): any[] {
+    const requestDef: any = { selector };
+    if (request.sort) {
+        requestDef.sort = normalizeSort(request.sort);
+        const directions = new Set(requestDef.sort.map((s: Record<string, string>) => Object.values(s)[0]));
+        if (directions.size > 1) throw queryError('Sort directions must all be the same');
+    }
+    if (request.skip !== undefined) requestDef.skip = request.skip;
+    if (request.limit !== undefined) requestDef.limit = request.limit;
+    const rows = filterInMemoryFields(docs.map(doc => ({ doc })), requestDef, Object.keys(selector));
+    return rows.map((row: any) => request.fields ? project(row.doc, request.fields) : row.doc);
+}
+
+function normalizeSort(fields: any[]): Record<string, 'asc' | 'desc'>[] {
+    return fields.map(f => {
+        if (typeof f === 'string') return { [f]: 'asc' };
+        const [name, direction] = Object.entries(f)[0] || [];
+        if (!name || (direction !== 'asc' && direction !== 'desc')) throw queryError(`Invalid sort field: ${JSON.stringify(f)}`);
+        return { [name]: direction };
+    });
+}
+
+function project(doc: any, fields: string[]): any {
+    const out: Record<string, any> = {};
+    for (const field of fields) {
+        const parsed = parseField(field);
+        const value = getFieldFromDoc(doc, parsed);
+        if (value !== undefined) setFieldInDoc(out, parsed, value);
+    }
+    return out;
+}
+
+/** Short, stable FNV-1a based hash for naming indexes */
+function hashOf(text: string): string {
+    let a = 0x811c9dc5;
+    let b = 0x01000193;
+    for (let i = 0; i < text.length; i++) {
+        a = Math.imul(a ^ text.charCodeAt(i), 0x01000193);
+        b = Math.imul(b ^ text.charCodeAt(i), 0x811c9dc5);
+    }
+    return (a >>> 0).toString(16).padStart(8, '0') + (b >>> 0).toString(16).padStart(8, '0');
+}
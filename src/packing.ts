@@ -0,0 +1,83 @@
+import { ChangeEntry, SnapshotDataChunk } from './types';
+
+/**
+ * Serialization helpers that record where each document body lands in the
+ * written file, so readers can fetch a single body with a `Range` request.
+ * Offsets and lengths are in UTF-8 bytes.
+ */
+
+export interface ByteRange {
+    offset: number;
+    length: number;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export function utf8Length(text: string): number {
+    return encoder.encode(text).length;
+}
+
+export function decodeUtf8(bytes: Uint8Array): string {
+    return decoder.decode(bytes);
+}
+
+/** NDJSON change log content and the range of every line (without its newline) */
+export function packNdjson(changes: ChangeEntry[]): { content: string, ranges: ByteRange[] } {
+    const lines: string[] = [];
+    const ranges: ByteRange[] = [];
+    let offset = 0;
+    for (const change of changes) {
+        const line = JSON.stringify(change);
+        const length = utf8Length(line);
+        lines.push(line);
+        ranges.push({ offset, length });
+        offset += length + 1;
+    }
+    return { content: lines.join('\n') + '\n', ranges };
+}
+
+/**
+ * Snapshot-data chunk content, equivalent to `JSON.stringify(data)`, with the
+ * range of every winning body (`docs`) and every conflict body (`conflicts`).
+ */
+export function packSnapshotChunk(data: SnapshotDataChunk): {
+    content: string,
+    docs: Record<string, ByteRange>,
+    conflicts: Record<string, Record<string, ByteRange>>
+} {
+    const parts: string[] = [];
+    let offset = 0;
+    const write = (text: string): ByteRange => {
+        const range = { offset, length: utf8Length(text) };
+        parts.push(text);
+        offset += range.length;
+        return range;
+    };
+
+    const docs: Record<string, ByteRange> = {};
+    write('{"docs":{');
+    Object.entries(data.docs).forEach(([id, doc], i) => {
+        write((i > 0 ? ',' : '') + JSON.stringify(id) + ':');
+        docs[id] = write(JSON.stringify(doc));
+    });
+    write('}');
+
+    const conflicts: Record<string, Record<string, ByteRange>> = {};
+    if (data.conflicts) {
+        write(',"conflicts":{');
+        Object.entries(data.conflicts).forEach(([id, revs], i) => {
+            write((i > 0 ? ',' : '') + JSON.stringify(id) + ':{');
+            conflicts[id] = {};
+            Object.entries(revs).forEach(([rev, doc], j) => {
+                write((j > 0 ? ',' : '') + JSON.stringify(rev) + ':');
+                conflicts[id][rev] = write(JSON.stringify(doc));
+            });
+            write('}');
+        });
+        write('}');
+    }
+    write('}');
+
+    return { content: parts.join(''), docs, conflicts };
+}
@@ -0,0 +1,22 @@
+/** Typings for the parts of untyped PouchDB modules used here */
+
+/** Mango selector matching */
+declare module 'pouchdb-selector-core' {
+    export function massageSelector(selector: Record<string, any>): Record<string, any>;
+    export function matchesSelector(doc: any, selector: Record<string, any>): boolean;
+    export function filterInMemoryFields(rows: { doc: any }[], requestDef: any, inMemoryFields: string[]): { doc: any }[];
+    export function rowFilter(doc: any, selector: Record<string, any>, inMemoryFields: string[]): boolean;
+    export function getFieldFromDoc(doc: any, parsedField: string[]): any;
+    export function setFieldInDoc(doc: any, parsedField: string[], value: any): void;
+    export function parseField(fieldName: string): string[];
+}
+
+/** CouchDB collation order of JSON values */
+declare module 'pouchdb-collate' {
+    export function collate(a: any, b: any): number;
+}
+
+/** MD5 of a Buffer (Node) or Blob (browsers), base64-encoded */
+declare module 'pouchdb-md5' {
+    export function binaryMd5(data: any, callback: (base64: string) => void): void;
+}
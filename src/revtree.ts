@@ -0,0 +1,236 @@
+import { RevTreeNode, RevTreePath, RevisionHistory } from './types';
+
+/** Maximum depth kept per branch, same default as CouchDB's revs_limit */
+export const DEFAULT_REVS_LIMIT = 1000;
+
+/** A leaf of the revision tree */
+export interface RevLeaf {
+    rev: string;
+    pos: number;
+    deleted: boolean;
+}
+
+/** Ancestor of a revision with its availability (CouchDB `_revs_info` format) */
+export interface RevInfo {
+    rev: string;
+    status: 'available' | 'missing' | 'deleted';
+}
+
+/**
+ * Revision tree helpers.
+ *
+ * Trees use PouchDB's rev_tree shape so they can be handed to PouchDB core as-is
+ * (revsDiff, open_revs). Only leaf revisions keep their bodies, so every inner
+ * node is marked 'missing'.
+ */
+
+export function parseRev(rev: string): { pos: number, hash: string } {
+    const dash = rev.indexOf('-');
+    return {
+        pos: parseInt(rev.substring(0, dash), 10),
+        hash: rev.substring(dash + 1)
+    };
+}
+
+/** Build a single-branch tree from a revision history */
+export function pathFromHistory(history: RevisionHistory, deleted: boolean): RevTreePath {
+    const ids = history.ids;
+    let node: RevTreeNode = [ids[0], deleted ? { status: 'available', deleted: true } : { status: 'available' }, []];
+    for (let i = 1; i < ids.length; i++) {
+        node = [ids[i], { status: 'missing' }, [node]];
+    }
+    return { pos: history.start - ids.length + 1, ids: node };
+}
+
+/** Tree for a document known only by its winning revision (pre-conflict-support indexes) */
+export function singleRevTree(rev: string, deleted: boolean): RevTreePath[] {
+    const { pos, hash } = parseRev(rev);
+    return [pathFromHistory({ start: pos, ids: [hash] }, deleted)];
+}
+
+function cloneNode(node: RevTreeNode): RevTreeNode {
+    return [node[0], { ...node[1] }, node[2].map(cloneNode)];
+}
+
+function findNode(root: RevTreeNode, depth: number, hash: string): RevTreeNode | null {
+    if (depth === 0) return root[0] === hash ? root : null;
+    for (const child of root[2]) {
+        const found = findNode(child, depth - 1, hash);
+        if (found) return found;
+    }
+    return null;
+}
+
+function mergeNode(target: RevTreeNode, source: RevTreeNode): void {
+    for (const child of source[2]) {
+        const existing = target[2].find(c => c[0] === child[0]);
+        if (existing) {
+            mergeNode(existing, child);
+        } else {
+            target[2].push(cloneNode(child));
+            target[2].sort((a, b) => (a[0] < b[0] ? -1 : 1));
+        }
+    }
+    if (target[2].length > 0) {
+        target[1] = { status: 'missing' };
+    } else if (source[1].status === 'available') {
+        target[1] = { ...source[1] };
+    }
+}
+
+function depthOf(node: RevTreeNode): number {
+    let max = 0;
+    for (const child of node[2]) max = Math.max(max, depthOf(child));
+    return max + 1;
+}
+
+/** Merge a single-branch path into a tree, returning a new tree */
+export function mergeRevTree(tree: RevTreePath[], path: RevTreePath, revsLimit: number = DEFAULT_REVS_LIMIT): RevTreePath[] {
+    const result = tree.map(t => ({ pos: t.pos, ids: cloneNode(t.ids) }));
+    let merged = false;
+
+    for (let i = 0; i < result.length && !merged; i++) {
+        const current = result[i];
+        if (current.pos <= path.pos) {
+            const node = findNode(current.ids, path.pos - current.pos, path.ids[0]);
+            if (node) {
+                mergeNode(node, path.ids);
+                merged = true;
+            }
+        } else {
+            // The incoming path reaches further back than this tree: graft the tree onto it
+            const grafted = { pos: path.pos, ids: cloneNode(path.ids) };
+            const node = findNode(grafted.ids, current.pos - path.pos, current.ids[0]);
+            if (node) {
+                mergeNode(node, current.ids);
+                result[i] = grafted;
+                merged = true;
+            }
+        }
+    }
+
+    if (!merged) {
+        result.push({ pos: path.pos, ids: cloneNode(path.ids) });
+    }
+    return stemRevTree(result, revsLimit);
+}
+
+/** Cut every branch down to its newest `revsLimit` revisions */
+export function stemRevTree(tree: RevTreePath[], revsLimit: number): RevTreePath[] {
+    if (!tree.some(t => depthOf(t.ids) > revsLimit)) return tree;
+
+    let stemmed: RevTreePath[] = [];
+    for (const leaf of collectLeaves(tree)) {
+        const history = revisionHistory(tree, leaf.rev)!;
+        const path = pathFromHistory({ start: history.start, ids: history.ids.slice(0, revsLimit) }, leaf.deleted);
+        stemmed = mergeRevTree(stemmed, path, Infinity);
+    }
+    return stemmed;
+}
+
+/** All leaves, winning revision first (CouchDB ordering: live before deleted, then highest rev) */
+export function collectLeaves(tree: RevTreePath[]): RevLeaf[] {
+    const leaves: RevLeaf[] = [];
+    const visit = (node: RevTreeNode, pos: number) => {
+        if (node[2].length === 0) {
+            leaves.push({ rev: `${pos}-${node[0]}`, pos, deleted: !!node[1].deleted });
+        }
+        for (const child of node[2]) visit(child, pos + 1);
+    };
+    for (const t of tree) visit(t.ids, t.pos);
+
+    leaves.sort((a, b) => {
+        if (a.deleted !== b.deleted) return a.deleted ? 1 : -1;
+        if (a.pos !== b.pos) return b.pos - a.pos;
+        return a.rev < b.rev ? 1 : -1;
+    });
+    return leaves;
+}
+
+export function winningLeaf(tree: RevTreePath[]): RevLeaf | undefined {
+    return collectLeaves(tree)[0];
+}
+
+/** Non-deleted leaves that lost against the winner */
+export function collectConflicts(tree: RevTreePath[]): string[] {
+    return collectLeaves(tree).slice(1).filter(l => !l.deleted).map(l => l.rev);
+}
+
+/** Deleted leaves other than the winner */
+export function collectDeletedConflicts(tree: RevTreePath[]): string[] {
+    return collectLeaves(tree).slice(1).filter(l => l.deleted).map(l => l.rev);
+}
+
+export function isLeaf(tree: RevTreePath[], rev: string): boolean {
+    return collectLeaves(tree).some(l => l.rev === rev);
+}
+
+/** Nodes from the root down to `rev`, or null if the tree does not contain it */
+function findChain(tree: RevTreePath[], rev: string): { pos: number, chain: RevTreeNode[] } | null {
+    const { pos, hash } = parseRev(rev);
+    const chain: RevTreeNode[] = [];
+    const walk = (node: RevTreeNode, depth: number): boolean => {
+        chain.push(node);
+        if (depth === 0 ? node[0] === hash : node[2].some(child => walk(child, depth - 1))) return true;
+        chain.pop();
+        return false;
+    };
+    for (const t of tree) {
+        if (t.pos <= pos && walk(t.ids, pos - t.pos)) return { pos, chain };
+    }
+    return null;
+}
+
+export function revExists(tree: RevTreePath[], rev: string): boolean {
+    return findChain(tree, rev) !== null;
+}
+
+/** Ancestry of `rev`, newest first */
+export function revisionHistory(tree: RevTreePath[], rev: string): RevisionHistory | null {
+    const found = findChain(tree, rev);
+    if (!found) return null;
+    return {
+        start: found.pos,
+        ids: found.chain.map(n => n[0]).reverse()
+    };
+}
+
+/** Ancestry of `rev` with availability, newest first */
+export function revisionInfo(tree: RevTreePath[], rev: string): RevInfo[] | null {
+    const found = findChain(tree, rev);
+    if (!found) return null;
+    return found.chain.slice().reverse().map((node, i) => ({
+        rev: `${found.pos - i}-${node[0]}`,
+        status: node[1].deleted ? 'deleted' : node[1].status
+    }));
+}
+
+/** The leaf descending from `rev`, winner first (CouchDB `latest` option) */
+export function latestLeaf(tree: RevTreePath[], rev: string): string | null {
+    const { pos, hash } = parseRev(rev);
+    for (const leaf of collectLeaves(tree)) {
+        const history = revisionHistory(tree, leaf.rev)!;
+        const offset = history.start - pos;
+        if (offset >= 0 && history.ids[offset] === hash) return leaf.rev;
+    }
+    return null;
+}
+
+/**
+ * Remove leaf `rev` and the ancestors only it descends from (purge). Returns the
+ * new tree and the removed revisions, leaf first; nothing is removed if `rev` is not a leaf.
+ */
+export function removeLeaf(tree: RevTreePath[], rev: string): { tree: RevTreePath[], removed: string[] } {
+    if (!isLeaf(tree, rev)) return { tree, removed: [] };
+    const result = tree.map(t => ({ pos: t.pos, ids: cloneNode(t.ids) }));
+    const { pos, chain } = findChain(result, rev)!;
+    const removed: string[] = [];
+    let i = chain.length - 1;
+    // Walk up while the node has no other branch to keep it alive
+    while (i >= 0 && chain[i][2].length === 0) {
+        removed.push(`${pos - (chain.length - 1 - i)}-${chain[i][0]}`);
+        if (i > 0) chain[i - 1][2] = chain[i - 1][2].filter(child => child !== chain[i]);
+        i--;
+    }
+    return { tree: i < 0 ? result.filter(t => t.ids !== chain[0]) : result, removed };
+}
@@ -11,14 +11,61 @@ export interface GoogleDriveAdapterOptions extends DriveClientOptions {
     folderName?: string;
     /** Parent folder IDs for folder creation */
     parents?: string[];
-    /** Interval in ms to check for remote changes */
+    /** Interval in ms to check for remote changes. Also the interval used right after any activity */
     pollingIntervalMs?: number;
+    /** Longest interval idle polling backs off to (default 10x pollingIntervalMs) */
+    maxPollingIntervalMs?: number;
     /** Compaction threshold - number of change entries before auto-compact */
     compactionThreshold?: number;
     /** Compaction threshold - size in bytes before auto-compact */
     compactionSizeThreshold?: number;
+    /** Collect writes for this many ms and commit them as one change log (off by default) */
+    writeCoalesceMs?: number;
+    /** Most changes in one coalesced commit; a full batch is committed right away (default 100) */
+    maxBatchSize?: number;
+    /**
+     * Orphaned files (logs, snapshots, attachment blobs nothing references) are only
+     * garbage collected once they are older than this, so uploads of writes still in
+     * flight on other clients are never touched (default 1 hour)
+     */
+    gcGracePeriodMs?: number;
+    /**
+     * Compaction drops deleted documents from the index once they have been deleted
+     * for longer than this. Replicas that have not synced since then never learn of
+     * the deletion (tombstones are kept forever by default)
+     */
+    tombstoneRetentionMs?: number;
+    /** Approximate size in bytes of each snapshot-data chunk written by compaction (default 1 MiB) */
+    snapshotChunkSize?: number;
     /** Cache size (number of documents) */
     cacheSize?: number;
+    /**
+     * Persist the index and recently used bodies across restarts, so the database
+     * opens from the cache and reconciles with Drive in the background. `true` uses
+     * IndexedDB in browsers and the filesystem in Node; a custom store can be passed.
+     */
+    localCache?: boolean | LocalCacheStore;
+    /** Directory of the filesystem cache in Node (default `.pouchdb-googledrive-cache`) */
+    localCacheDir?: string;
+    /**
+     * Identifies the Google account in local cache keys, so accounts sharing a device
+     * never see each other's cache. Looked up from the token (about.get) when not set
+     */
+    accountId?: string;
+    /**
+     * Queue writes that cannot reach Drive in a local outbox instead of failing them.
+     * Queued writes are visible right away and flushed once Drive is reachable.
+     * The outbox survives restarts when `localCache` is on.
+     */
+    offlineWrites?: boolean;
+    /**
+     * Encrypt every database file with AES-GCM before it is uploaded. Takes a raw
+     * 256-bit key or a passphrase; `previousKeys` keeps older keys readable until
+     * compaction re-encrypts everything with the current key.
+     */
+    encryption?: EncryptionOptions;
+    /** Gzip change logs, snapshots and `_local` docs before uploading them (off by default) */
+    compression?: 'gzip';
     /** Enable debug logging */
     debug?: boolean;
     /** Enable test mode (emulates Google Drive API) */
@@ -27,6 +74,124 @@ export interface GoogleDriveAdapterOptions extends DriveClientOptions {
     testServerUrl?: string;
 }
 
+/** Persistent key/value store backing the local cache. Values are JSON-serializable */
+export interface LocalCacheStore {
+    get(key: string): Promise<any | undefined>;
+    set(key: string, value: any): Promise<void>;
+    delete(key: string): Promise<void>;
+}
+
+/** A raw 256-bit key (bytes or base64) or a passphrase */
+export interface EncryptionKeyOptions {
+    key?: Uint8Array | string;
+    passphrase?: string;
+}
+
+export interface EncryptionOptions extends EncryptionKeyOptions {
+    /** Keys used before a rotation, needed to read files not yet re-encrypted */
+    previousKeys?: EncryptionKeyOptions[];
+}
+
+/** Plaintext header of an encrypted `_meta.json` */
+export interface EncryptionHeader {
+    algorithm: 'AES-GCM';
+    /** Base64 salt for PBKDF2 and HKDF */
+    salt: string;
+    /** PBKDF2 iterations for passphrases */
+    iterations: number;
+    /** Key-check values of every key files may still be encrypted with, current key first */
+    keyChecks: string[];
+}
+
+/** One inconsistency found by `check()` */
+export interface CheckProblem {
+    type: 'missing_file' | 'unreadable_file' | 'duplicate_reference' | 'dangling_pointer' | 'seq_gap' | 'unreferenced_file';
+    message: string;
+    fileId?: string;
+    /** File name, for files found in the folder */
+    name?: string;
+    /** Document whose index entry points at a missing or unreadable file */
+    docId?: string;
+}
+
+/** Result of `check()` / `db.fsck()` */
+export interface CheckReport {
+    /** No problems found (unreferenced files aside, which are harmless) */
+    ok: boolean;
+    problems: CheckProblem[];
+    /** Files listed in the database folder */
+    fileCount: number;
+    /** `_meta.json` and the snapshot index were rebuilt (repair mode only) */
+    repaired: boolean;
+}
+
+/** Result of `collectGarbage()` */
+export interface GarbageCollectionReport {
+    /** Orphaned files deleted (or only found, in a dry run) */
+    deleted: { fileId: string, name: string, modifiedTime?: string }[];
+    /** Orphaned files kept because they are younger than the grace period */
+    skipped: number;
+    /** Files listed in the database folder */
+    fileCount: number;
+}
+
+/** What a file in the database folder is for */
+export type DatabaseFileKind =
+    | 'meta'
+    | 'change_log'
+    | 'snapshot_index'
+    | 'snapshot_data'
+    | 'local_docs'
+    | 'attachment'
+    | 'mango_index'
+    | 'view_index'
+    | 'other';
+
+/** One file of the database folder, as returned by `listDatabaseFiles()` */
+export interface DatabaseFile {
+    fileId: string;
+    name: string;
+    kind: DatabaseFileKind;
+    /** Stored size in bytes (after compression and encryption) */
+    size: number;
+    modifiedTime?: string;
+}
+
+/** State of remote change polling, as returned by `db.getPollingStatus()` */
+export interface PollingStatus {
+    /** Whether polling runs for this database */
+    active: boolean;
+    /** Polling waits for the browser to come back online */
+    paused: boolean;
+    /** Delay before the next check, null when not polling */
+    intervalMs: number | null;
+    /** Time (ms since epoch) of the last successful check, null before the first one */
+    lastCheckAt: number | null;
+}
+
+/** Revision tree node: [revHash, options, children] (same shape as PouchDB's rev_tree) */
+export type RevTreeNode = [string, RevTreeNodeOptions, RevTreeNode[]];
+
+/** Per-revision flags stored in the revision tree */
+export interface RevTreeNodeOptions {
+    /** 'available' if the body of this revision can be served, 'missing' otherwise */
+    status: 'available' | 'missing';
+    /** Whether this revision is a deletion */
+    deleted?: boolean;
+}
+
+/** A rooted revision tree. `pos` is the generation of the root node */
+export interface RevTreePath {
+    pos: number;
+    ids: RevTreeNode;
+}
+
+/** Ancestry of a single revision, newest first (CouchDB `_revisions` format) */
+export interface RevisionHistory {
+    start: number;
+    ids: string[];
+}
+
 /** A single change entry in the append-only log */
 export interface ChangeEntry {
     /** Sequence number of this change */
@@ -35,8 +200,12 @@ export interface ChangeEntry {
     id: string;
     /** New revision */
     rev: string;
+    /** Ancestry of `rev`. Replaying the log merges it into the document's revision tree */
+    revisions?: RevisionHistory;
     /** Whether document was deleted */
     deleted?: boolean;
+    /** `rev` is purged: the leaf and the branch only it uses are removed from the rev tree */
+    purged?: boolean;
     /** The document data (omitted for deletes) */
     doc?: Record<string, any>;
     /** Timestamp of the change */
@@ -49,21 +218,27 @@ export interface FilePointer {
     etag?: string;
     md5Checksum?: string;
     modifiedTime?: string;
-    /** Optional offset/length for future optimization (packed files) */
+    /** UTF-8 byte range of the body inside a packed file, read with a `Range` request */
     offset?: number;
     length?: number;
 }
 
 /** In-Memory Index Entry */
 export interface IndexEntry {
-    /** Current revision */
+    /** Current (winning) revision */
     rev: string;
     /** Sequence number where this rev was minted */
     seq: number;
     /** Whether it is a deletion marker */
     deleted?: boolean;
+    /** When the document was deleted (ms since epoch), for tombstone retention */
+    deletedAt?: number;
     /** Pointer to the file containing the body (changes-*.ndjson or snapshot-data-*.json) */
     location: FilePointer;
+    /** Full revision tree (missing in indexes written before conflict support) */
+    revTree?: RevTreePath[];
+    /** Body locations of every leaf revision, winner included, keyed by rev */
+    revLocations?: Record<string, FilePointer>;
 }
 
 /** Old Legacy Snapshot (Compact + Data) - Kept for migration */
@@ -81,12 +256,37 @@ export interface SnapshotIndex {
     seq: number;
     /** Timestamp */
     createdAt: number;
+    /** snapshot-data chunks the entries point into (missing in indexes written before chunking) */
+    chunks?: SnapshotChunkInfo[];
+}
+
+/** A snapshot-data file and the documents stored in it */
+export interface SnapshotChunkInfo {
+    fileId: string;
+    /** Documents whose bodies (winner and conflicts) live in this chunk */
+    docIds: string[];
+    /** Approximate serialized size in bytes */
+    size: number;
+    /** Attachment digests referenced by the bodies in this chunk */
+    digests?: string[];
+    /** Checksums of the chunk file (missing in chunks written before checksums) */
+    checksum?: FileChecksum;
+}
+
+/** Checksums of an immutable data file, recorded when it is uploaded */
+export interface FileChecksum {
+    /** `sha256-<base64>` of the stored bytes (after compression and encryption) */
+    sha256: string;
+    /** Drive's md5Checksum after upload; a different one in a later listing means the file was replaced */
+    md5?: string;
 }
 
 /** New Snapshot Data (Bulk Content) */
 export interface SnapshotDataChunk {
     /** Map of DocID -> Document Body */
     docs: Record<string, any>;
+    /** Map of DocID -> Rev -> Body for non-winning leaf revisions */
+    conflicts?: Record<string, Record<string, any>>;
 }
 
 /** Metadata file content */
@@ -105,4 +305,57 @@ export interface MetaData {
     localDocsId?: string | null;
     /** Schema Version (for migration) */
     version?: number;
+    /** Checksums of the change logs and the snapshot index, by file ID */
+    checksums?: Record<string, FileChecksum>;
+    /** Set once any file may be compressed with this codec; older files stay readable */
+    codec?: 'gzip';
+    /** Mango indexes created with `db.createIndex()` */
+    mangoIndexes?: MangoIndexInfo[];
+    /** Map/reduce views materialized by `db.query()` */
+    views?: ViewIndexInfo[];
+}
+
+/** A Mango index definition and the file holding its rows */
+export interface MangoIndexInfo {
+    /** Design doc ID the index is reported under (`_design/...`); no design doc is stored */
+    ddoc: string;
+    name: string;
+    /** Indexed fields in order, e.g. `[{ type: 'asc' }, { 'author.name': 'asc' }]` */
+    fields: Record<string, 'asc' | 'desc'>[];
+    /** Only docs matching this selector are indexed */
+    partialFilterSelector?: Record<string, any>;
+    /** `mango-index-*` file with the rows */
+    fileId: string;
+    /** Seq the rows in the file are up to date with */
+    seq: number;
+    checksum?: FileChecksum;
+}
+
+/** Content of a `mango-index-*` file */
+export interface MangoIndexData {
+    seq: number;
+    /** Indexed field values of every doc that has all of them, by doc ID */
+    rows: Record<string, any[]>;
+}
+
+/** A design doc view materialized into a file */
+export interface ViewIndexInfo {
+    /** Design doc ID, e.g. `_design/posts` */
+    ddoc: string;
+    view: string;
+    /** Hash of the map and reduce source; the file is rebuilt when the design doc changes them */
+    signature: string;
+    /** `view-index-*` file with the rows */
+    fileId: string;
+    /** Seq the rows in the file are up to date with */
+    seq: number;
+    checksum?: FileChecksum;
+}
+
+/** Content of a `view-index-*` file */
+export interface ViewIndexData {
+    seq: number;
+    signature: string;
+    /** `[key, value]` pairs each doc emitted, by doc ID (docs that emitted nothing are left out) */
+    rows: Record<string, [any, any][]>;
 }
@@ -0,0 +1,183 @@
+import { collate } from 'pouchdb-collate';
+import { digestOf } from './attachments';
+
+/**
+ * Map/reduce views: evaluating design doc functions, ordering emitted rows by
+ * CouchDB collation and answering `query` options (key ranges, grouping and the
+ * built-in `_count`, `_sum` and `_stats` reduces) from them.
+ */
+
+/** A map/reduce view as written in a design doc */
+export interface ViewDefinition {
+    map: string;
+    reduce?: string;
+}
+
+export interface ViewRow {
+    id: string;
+    key: any;
+    value: any;
+}
+
+function viewError(name: string, status: number, message: string): Error {
+    const err: any = new Error(message);
+    err.name = name;
+    err.status = status;
+    return err;
+}
+
+export function missingViewError(message: string): Error {
+    return viewError('not_found', 404, message);
+}
+
+function invalidValueError(message: string): Error {
+    return viewError('invalid_value', 500, message);
+}
+
+/** Design doc functions are source strings, evaluated with the globals PouchDB's map/reduce provides */
+function evalFunction(source: string, emit: (key: any, value?: any) => void): any {
+    const factory = new Function('emit', 'sum', 'log', 'isArray', 'toJSON', `return (${source.trim().replace(/;\s*$/, '')});`);
+    return factory(emit, sum, console.log, Array.isArray, JSON.parse);
+}
+
+/** The `[key, value]` pairs a map function emits for a doc; a throwing map emits nothing */
+export function compileMap(source: string): (doc: any) => [any, any][] {
+    let emitted: [any, any][] = [];
+    const map = evalFunction(source, (key, value) => {
+        emitted.push([key === undefined ? null : key, value === undefined ? null : value]);
+    });
+    return (doc) => {
+        emitted = [];
+        try {
+            // A copy, so a map function cannot change cached bodies
+            map(JSON.parse(JSON.stringify(doc)));
+        } catch (e) {
+            return [];
+        }
+        return emitted;
+    };
+}
+
+/** A design doc `filters` function for the changes feed; a throwing filter rejects the doc */
+export function compileFilter(source: string): (doc: any, req: any) => boolean {
+    const filter = evalFunction(source, () => { });
+    return (doc, req) => {
+        try {
+            return !!filter(doc, req);
+        } catch (e) {
+            return false;
+        }
+    };
+}
+
+/** Hash of a view's functions; rows built with other functions are stale */
+export async function viewSignature(view: ViewDefinition): Promise<string> {
+    return digestOf(new TextEncoder().encode(JSON.stringify([view.map, view.reduce || null])));
+}
+
+/** Every emitted row, in view order: by key, then by doc ID */
+export function sortedRows(rows: Record<string, [any, any][]>): ViewRow[] {
+    const all: ViewRow[] = [];
+    for (const [id, emitted] of Object.entries(rows)) {
+        for (const [key, value] of emitted) all.push({ id, key, value });
+    }
+    return all.sort((a, b) => collate(a.key, b.key) || collate(a.id, b.id));
+}
+
+/**
+ * Answer `query` options from the sorted rows of a view: `key`, `keys`,
+ * `startkey`/`endkey` with `inclusive_end`, `descending`, `skip`, `limit` and,
+ * for views with a reduce, `reduce`, `group` and `group_level`.
+ */
+export function queryRows(all: ViewRow[], reduce: string | undefined, opts: any): { total_rows?: number, offset?: number, rows: any[] } {
+    let rows = opts.descending ? [...all].reverse() : all;
+    const direction = opts.descending ? -1 : 1;
+    const startkey = opts.startkey !== undefined ? opts.startkey : opts.start_key;
+    const endkey = opts.endkey !== undefined ? opts.endkey : opts.end_key;
+
+    let skipped = 0;
+    if (opts.keys) {
+        rows = opts.keys.flatMap((key: any) => rows.filter(r => collate(r.key, key) === 0));
+    } else if (opts.key !== undefined) {
+        rows = rows.filter(r => collate(r.key, opts.key) === 0);
+    } else {
+        if (startkey !== undefined) {
+            const before = rows.length;
+            rows = rows.filter(r => collate(r.key, startkey) * direction >= 0);
+            skipped = before - rows.length;
+        }
+        if (endkey !== undefined) {
+            rows = rows.filter(r => {
+                const c = collate(r.key, endkey) * direction;
+                return opts.inclusive_end === false ? c < 0 : c <= 0;
+            });
+        }
+    }
+
+    const skip = opts.skip || 0;
+    const page = (list: any[]) => list.slice(skip, typeof opts.limit === 'number' ? skip + opts.limit : undefined);
+
+    if (reduce && opts.reduce !== false) {
+        const level = opts.group ? Infinity : opts.group_level;
+        if (level === undefined) return { rows: page(rows.length > 0 ? [{ key: null, value: reduceRows(reduce, rows) }] : []) };
+
+        const groups: { key: any, rows: ViewRow[] }[] = [];
+        for (const row of rows) {
+            const key = Array.isArray(row.key) && level !== Infinity ? row.key.slice(0, level) : row.key;
+            const last = groups[groups.length - 1];
+            if (last && collate(last.key, key) === 0) last.rows.push(row);
+            else groups.push({ key, rows: [row] });
+        }
+        return { rows: page(groups.map(g => ({ key: g.key, value: reduceRows(reduce, g.rows) }))) };
+    }
+
+    return {
+        total_rows: all.length,
+        offset: opts.keys ? 0 : skipped + skip,
+        rows: page(rows.map(r => ({ id: r.id, key: r.key, value: r.value })))
+    };
+}
+
+function reduceRows(reduce: string, rows: ViewRow[]): any {
+    const values = rows.map(r => r.value);
+    switch (reduce.trim()) {
+        case '_count':
+            return rows.length;
+        case '_sum':
+            return sum(values);
+        case '_stats':
+            return stats(values);
+        default: {
+            const fn = evalFunction(reduce, () => { });
+            return fn(rows.map(r => [r.key, r.id]), values, false);
+        }
+    }
+}
+
+/** `_sum` of numbers, or element-wise of number arrays */
+function sum(values: any[]): number | number[] {
+    if (values.some(Array.isArray)) {
+        const totals: number[] = [];
+        for (const value of values) {
+            (Array.isArray(value) ? value : [value]).forEach((n, i) => totals[i] = (totals[i] || 0) + number(n, '_sum'));
+        }
+        return totals;
+    }
+    return values.reduce((total, value) => total + number(value, '_sum'), 0);
+}
+
+function stats(values: any[]): { sum: number, count: number, min: number, max: number, sumsqr: number } {
+    const numbers = values.map(v => number(v, '_stats'));
+    return {
+        sum: numbers.reduce((a, b) => a + b, 0),
+        count: numbers.length,
+        min: Math.min(...numbers),
+        max: Math.max(...numbers),
+        sumsqr: numbers.reduce((a, b) => a + b * b, 0)
+    };
+}
+
+function number(value: any, reduce: string): number {
+    if (typeof value !== 'number') throw invalidValueError(`builtin ${reduce} function requires map values to be numbers`);
+    return value;
+}
@@ -1,5 +1,6 @@
 
 import express, { Express, Request, Response } from 'express';
+import crypto from 'crypto';
 import fs from 'fs';
 import path from 'path';
 
@@ -9,6 +10,14 @@ export class TestServer {
     private port: number;
     private rootDir: string;
     private metadataParams: Map<string, any> = new Map(); // Store metadata by ID
+    private changeLog: string[] = []; // File IDs in the order they changed; page tokens index into it
+    private uploadSessions: Map<string, { meta: any, total: number, chunks: Uint8Array[], received: number }> = new Map();
+    /** Number of upcoming resumable chunks that are stored but whose response is dropped */
+    public interruptUploads = 0;
+    /** Largest page a file listing returns, lowered by tests to exercise paging */
+    public maxPageSize = 1000;
+    /** Shared drives by ID; files created in one (directly or in one of its folders) belong to it */
+    private sharedDrives: Set<string> = new Set();
 
     constructor(port: number = 3000, rootDir: string = '.test-drive-root') {
         this.port = port;
@@ -28,12 +37,28 @@ export class TestServer {
             fs.mkdirSync(this.rootDir, { recursive: true });
         }
 
+        // Like Drive, Shared Drive items are only found by clients that say they support them
+        this.app.use(['/drive/v3/files/:fileId', '/upload/drive/v3/files/:fileId'], (req, res, next) => {
+            const meta = this.metadataParams.get(req.params.fileId as string);
+            if (meta && meta.driveId && req.query.supportsAllDrives !== 'true') {
+                res.status(404).json({ error: { message: 'File not found' } });
+                return;
+            }
+            next();
+        });
+
         // Routes
+        this.app.get('/drive/v3/about', this.getAbout.bind(this));
+        this.app.get('/drive/v3/changes/startPageToken', this.getStartPageToken.bind(this));
+        this.app.get('/drive/v3/changes', this.listChanges.bind(this));
         this.app.get('/drive/v3/files', this.listFiles.bind(this));
+        this.app.get('/drive/v3/files/generateIds', this.generateIds.bind(this));
         this.app.get('/drive/v3/files/:fileId', this.getFile.bind(this));
         this.app.post('/drive/v3/files', this.createFileMeta.bind(this));
-        this.app.post('/upload/drive/v3/files', this.createFileMultipart.bind(this));
-        this.app.patch('/upload/drive/v3/files/:fileId', this.updateFile.bind(this));
+        this.app.post('/upload/drive/v3/files', this.createFileUpload.bind(this));
+        this.app.put('/upload/drive/v3/files', this.uploadChunk.bind(this));
+        this.app.patch('/upload/drive/v3/files/:fileId', express.raw({ type: ['application/octet-stream', 'application/gzip'], limit: '50mb' }), this.updateFile.bind(this));
+        this.app.patch('/drive/v3/files/:fileId', this.updateFileMeta.bind(this));
         this.app.delete('/drive/v3/files/:fileId', this.deleteFile.bind(this));
     }
 
@@ -65,12 +90,49 @@ export class TestServer {
 
     public reset(): void {
         this.metadataParams.clear();
+        this.changeLog = [];
+        this.uploadSessions.clear();
+        this.interruptUploads = 0;
+        this.maxPageSize = 1000;
+        this.sharedDrives.clear();
         if (fs.existsSync(this.rootDir)) {
             fs.rmSync(this.rootDir, { recursive: true, force: true });
             fs.mkdirSync(this.rootDir);
         }
     }
 
+    /** Create a Shared Drive and return its ID */
+    public addSharedDrive(): string {
+        const id = this.generateId();
+        this.sharedDrives.add(id);
+        return id;
+    }
+
+    /** Where a file created under `parents` lives: a Shared Drive, the app data space or My Drive */
+    private locationOf(parents: string[] = []): { driveId?: string, space?: string } {
+        for (const parent of parents) {
+            if (this.sharedDrives.has(parent)) return { driveId: parent };
+            if (parent === 'appDataFolder') return { space: 'appDataFolder' };
+            const meta = this.metadataParams.get(parent);
+            if (meta && meta.driveId) return { driveId: meta.driveId };
+            if (meta && meta.space) return { space: meta.space };
+        }
+        return {};
+    }
+
+    /**
+     * Only items of the requested `spaces` (default `drive`), and of those only the
+     * requested Shared Drive's, or none without `includeItemsFromAllDrives`
+     */
+    private inCorpus(files: any[], req: Request): any[] {
+        const spaces = String(req.query.spaces || 'drive').split(',');
+        files = files.filter(f => spaces.includes(f.space || 'drive'));
+        const driveId = req.query.driveId as string | undefined;
+        if (driveId) return files.filter(f => f.driveId === driveId);
+        if (req.query.includeItemsFromAllDrives === 'true') return files;
+        return files.filter(f => !f.driveId);
+    }
+
     // --- Handlers ---
 
     private listFiles(req: Request, res: Response): void {
@@ -78,7 +140,11 @@ export class TestServer {
         // Simple query parsing: "name = 'X' and 'P' in parents"
         // This is fragile but sufficient for our specific adapter queries
 
-        let files = Array.from(this.metadataParams.values());
+        if (req.query.driveId && (req.query.corpora !== 'drive' || req.query.includeItemsFromAllDrives !== 'true' || req.query.supportsAllDrives !== 'true')) {
+            res.status(400).json({ error: { message: 'driveId requires corpora=drive, includeItemsFromAllDrives and supportsAllDrives' } });
+            return;
+        }
+        let files = this.inCorpus(Array.from(this.metadataParams.values()), req);
 
         if (q) {
             const dq = decodeURIComponent(q);
@@ -93,6 +159,13 @@ export class TestServer {
                 files = files.filter(f => f.name === name);
             }
 
+            // Name prefix filter (Drive's `contains` is a prefix match on names)
+            const containsMatch = q.match(/name contains '([^']+)'/);
+            if (containsMatch) {
+                const prefix = containsMatch[1];
+                files = files.filter(f => f.name.startsWith(prefix));
+            }
+
             // Parent filter
             const parentMatch = q.match(/'([^']+)' in parents/);
             if (parentMatch) {
@@ -101,7 +174,45 @@ export class TestServer {
             }
         }
 
-        res.json({ files });
+        const orderBy = req.query.orderBy as string | undefined;
+        if (orderBy === 'name' || orderBy === 'name desc') {
+            files.sort((a, b) => a.name < b.name ? -1 : a.name > b.name ? 1 : 0);
+            if (orderBy === 'name desc') files.reverse();
+        }
+
+        // Drive pages results (100 per page unless asked otherwise); the token is an offset here
+        const start = parseInt(req.query.pageToken as string, 10) || 0;
+        const pageSize = Math.min(parseInt(req.query.pageSize as string, 10) || 100, this.maxPageSize);
+        const page = files.slice(start, start + pageSize).map(f => this.withSize(f));
+        res.json(start + pageSize < files.length ? { files: page, nextPageToken: String(start + pageSize) } : { files: page });
+    }
+
+    /** Every access token stands for its own user */
+    private getAbout(req: Request, res: Response): void {
+        const token = (req.headers.authorization || '').replace(/^Bearer /, '');
+        const permissionId = crypto.createHash('sha256').update(token).digest('hex').substring(0, 20);
+        res.json({ user: { permissionId } });
+    }
+
+    private getStartPageToken(req: Request, res: Response): void {
+        res.json({ startPageToken: String(this.changeLog.length) });
+    }
+
+    private listChanges(req: Request, res: Response): void {
+        const start = parseInt(req.query.pageToken as string, 10) || 0;
+        const pageSize = parseInt(req.query.pageSize as string, 10) || 100;
+        const end = Math.min(start + pageSize, this.changeLog.length);
+
+        // Like Drive, report each file once with its current metadata
+        const fileIds = Array.from(new Set(this.changeLog.slice(start, end)));
+        const changes = this.inCorpus(fileIds.map(fileId => this.metadataParams.get(fileId)), req)
+            .map(file => ({ fileId: file.id, removed: false, file }));
+
+        if (end < this.changeLog.length) {
+            res.json({ changes, nextPageToken: String(end) });
+        } else {
+            res.json({ changes, newStartPageToken: String(end) });
+        }
     }
 
     private getFile(req: Request, res: Response): void {
@@ -124,6 +235,14 @@ export class TestServer {
                 }
                 try {
                     const content = fs.readFileSync(filePath);
+                    const range = /^bytes=(\d+)-(\d+)$/.exec(req.headers.range || '');
+                    if (range) {
+                        const start = parseInt(range[1], 10);
+                        const end = Math.min(parseInt(range[2], 10), content.length - 1);
+                        res.status(206).setHeader('Content-Range', `bytes ${start}-${end}/${content.length}`);
+                        res.send(content.subarray(start, end + 1));
+                        return;
+                    }
                     res.send(content);
                 } catch (err) {
                     res.status(500).send('Error reading file');
@@ -132,30 +251,115 @@ export class TestServer {
                 res.send(''); // Empty file?
             }
         } else {
-            res.json(meta);
+            this.sendMetadata(res, meta);
         }
     }
 
+    private generateIds(req: Request, res: Response): void {
+        const count = parseInt(req.query.count as string, 10) || 10;
+        const ids: string[] = [];
+        for (let i = 0; i < count; i++) ids.push(this.generateId());
+        res.json({ kind: 'drive#generatedIds', space: req.query.space || 'drive', ids });
+    }
+
     private createFileMeta(req: Request, res: Response): void {
         const meta = req.body;
-        const id = this.generateId();
+        if (this.rejectTakenId(meta.id, res)) return;
+        const id = meta.id || this.generateId();
         const newFile = {
             id,
             name: meta.name,
             mimeType: meta.mimeType,
             parents: meta.parents || [],
+            ...this.locationOf(meta.parents),
             modifiedTime: new Date().toISOString(),
             etag: this.generateId(),
             trashed: false
         };
 
-        this.metadataParams.set(id, newFile);
+        this.saveMetadata(id, newFile);
         // Create empty file if folder
         if (meta.mimeType !== 'application/vnd.google-apps.folder') {
             fs.writeFileSync(path.join(this.rootDir, id), '');
         }
 
-        res.json(newFile);
+        this.sendMetadata(res, newFile);
+    }
+
+    private createFileUpload(req: Request, res: Response): void {
+        if (req.query.uploadType === 'resumable') {
+            this.startResumableUpload(req, res);
+        } else {
+            this.createFileMultipart(req, res);
+        }
+    }
+
+    private startResumableUpload(req: Request, res: Response): void {
+        const meta = req.body;
+        if (this.rejectTakenId(meta.id, res)) return;
+        const uploadId = this.generateId();
+        this.uploadSessions.set(uploadId, {
+            meta,
+            total: parseInt(req.headers['x-upload-content-length'] as string, 10),
+            chunks: [],
+            received: 0
+        });
+        res.setHeader('Location', `${req.protocol}://${req.get('host')}${req.path}?uploadType=resumable&upload_id=${uploadId}`);
+        res.status(200).send();
+    }
+
+    /** Resumable upload chunk (`Content-Range: bytes a-b/total`), or a status query when the body is empty */
+    private uploadChunk(req: Request, res: Response): void {
+        const session = this.uploadSessions.get(req.query.upload_id as string);
+        if (!session) {
+            res.status(404).json({ error: { message: 'Upload session not found' } });
+            return;
+        }
+
+        const chunks: Uint8Array[] = [];
+        req.on('data', chunk => chunks.push(new Uint8Array(chunk)));
+        req.on('end', () => {
+            const range = (req.headers['content-range'] as string || '').match(/bytes (\d+)-(\d+)\//);
+            // Chunks must continue exactly where the stored bytes end
+            if (range && parseInt(range[1], 10) === session.received) {
+                const body = Buffer.concat(chunks);
+                session.chunks.push(new Uint8Array(body));
+                session.received += body.length;
+            }
+
+            if (session.received >= session.total) {
+                const id = session.meta.id || this.generateId();
+                const newFile = {
+                    id,
+                    name: session.meta.name,
+                    mimeType: session.meta.mimeType,
+                    parents: session.meta.parents || [],
+                    ...this.locationOf(session.meta.parents),
+                    modifiedTime: new Date().toISOString(),
+                    etag: this.generateId(),
+                    md5Checksum: this.md5(new Uint8Array(Buffer.concat(session.chunks))),
+                    trashed: false
+                };
+                if (!this.metadataParams.has(id)) {
+                    this.saveMetadata(id, newFile);
+                    fs.writeFileSync(path.join(this.rootDir, id), new Uint8Array(Buffer.concat(session.chunks)));
+                }
+                if (range && this.dropResponse(req)) return;
+                this.sendMetadata(res, this.metadataParams.get(id));
+                return;
+            }
+
+            if (range && this.dropResponse(req)) return;
+            if (session.received > 0) res.setHeader('Range', `bytes=0-${session.received - 1}`);
+            res.status(308).send();
+        });
+    }
+
+    private dropResponse(req: Request): boolean {
+        if (this.interruptUploads <= 0) return false;
+        this.interruptUploads--;
+        req.socket.destroy();
+        return true;
     }
 
     private createFileMultipart(req: Request, res: Response): void {
@@ -191,10 +395,21 @@ export class TestServer {
         // BUT, since we want to be quick, let's assume the client sends valid text-based multipart/related (JSON + String).
         // The adapter sends strings.
 
-        let rawBody = '';
-        req.on('data', chunk => rawBody += chunk);
+        // Collect Buffers so binary content (attachments) survives untouched
+        const chunks: Uint8Array[] = [];
+        req.on('data', chunk => chunks.push(new Uint8Array(chunk)));
         req.on('end', () => {
-            const parts = rawBody.split(`--${boundary}`);
+            const rawBody = Buffer.concat(chunks);
+            const delimiter = Buffer.from(`--${boundary}`);
+            const parts: Buffer[] = [];
+            let start = 0;
+            let next = rawBody.indexOf(delimiter, start);
+            while (next !== -1) {
+                parts.push(rawBody.subarray(start, next));
+                start = next + delimiter.length;
+                next = rawBody.indexOf(delimiter, start);
+            }
+            parts.push(rawBody.subarray(start));
             // parts[0] is empty (preamble)
             // parts[1] is metadata headers + body
             // parts[2] is content headers + body
@@ -206,36 +421,39 @@ export class TestServer {
             }
 
             // Parse Metadata (Part 1)
-            const metaPart = parts[1];
+            const metaPart = parts[1].toString();
             const metaBodyIndex = metaPart.indexOf('\r\n\r\n');
             const metaJson = metaPart.substring(metaBodyIndex + 4).trim();
             const meta = JSON.parse(metaJson);
+            if (this.rejectTakenId(meta.id, res)) return;
 
             // Parse Content (Part 2)
             const contentPart = parts[2];
             const contentBodyIndex = contentPart.indexOf('\r\n\r\n');
-            const content = contentPart.substring(contentBodyIndex + 4);
+            const content = contentPart.subarray(contentBodyIndex + 4);
             // Remove trailing \r\n from content part if it exists before the boundary? 
             // The split removes the boundary, but there might be \r\n before it.
             // Usually multipart ends with \r\n--boundary
             // So content probably has a trailing \r\n that belongs to the framing, not the content.
-            const cleanContent = content.slice(0, -2); // Extremely naive, but might work for text content
+            const cleanContent = content.subarray(0, content.length - 2); // Extremely naive, but might work for text content
 
-            const id = this.generateId();
+            const id = meta.id || this.generateId();
             const newFile = {
                 id,
                 name: meta.name,
                 mimeType: meta.mimeType,
                 parents: meta.parents || [],
+                ...this.locationOf(meta.parents),
                 modifiedTime: new Date().toISOString(),
                 etag: this.generateId(),
+                md5Checksum: this.md5(new Uint8Array(cleanContent)),
                 trashed: false
             };
 
-            this.metadataParams.set(id, newFile);
-            fs.writeFileSync(path.join(this.rootDir, id), cleanContent);
+            this.saveMetadata(id, newFile);
+            fs.writeFileSync(path.join(this.rootDir, id), new Uint8Array(cleanContent));
 
-            res.json(newFile);
+            this.sendMetadata(res, newFile);
         });
     }
 
@@ -266,7 +484,9 @@ export class TestServer {
         // So req.body should be available if we use express.json() / express.text()
 
         let content = req.body;
-        if (typeof content === 'object') {
+        if (Buffer.isBuffer(content)) {
+            content = new Uint8Array(content);
+        } else if (typeof content === 'object') {
             content = JSON.stringify(content);
         }
 
@@ -275,23 +495,75 @@ export class TestServer {
         // Update metadata
         meta.modifiedTime = new Date().toISOString();
         meta.etag = this.generateId();
-        this.metadataParams.set(fileId, meta);
+        meta.md5Checksum = this.md5(content);
+        this.saveMetadata(fileId, meta);
 
-        res.json(meta);
+        this.sendMetadata(res, meta);
+    }
+
+    /** Metadata-only update; only moving to the trash is supported */
+    private updateFileMeta(req: Request, res: Response): void {
+        const fileId = req.params.fileId as string;
+        const meta = this.metadataParams.get(fileId);
+        if (!meta) {
+            res.status(404).json({ error: { message: 'File not found' } });
+            return;
+        }
+        if (req.body && req.body.trashed === true) {
+            meta.trashed = true;
+            meta.modifiedTime = new Date().toISOString();
+            this.saveMetadata(fileId, meta);
+        }
+        this.sendMetadata(res, meta);
     }
 
     private deleteFile(req: Request, res: Response): void {
         const fileId = req.params.fileId as string;
         const meta = this.metadataParams.get(fileId);
 
+        // The emulated user is a content manager of every Shared Drive: they may trash, not delete
+        if (meta && meta.driveId) {
+            res.status(403).json({ error: { message: 'The user does not have sufficient permissions for this file.', errors: [{ reason: 'insufficientFilePermissions' }] } });
+            return;
+        }
+
         if (meta) {
             meta.trashed = true;
-            this.metadataParams.set(fileId, meta);
+            this.saveMetadata(fileId, meta);
         }
 
         res.status(204).send();
     }
 
+    /** File resource with its content size, which Drive reports as an int64 string */
+    private withSize(meta: any): any {
+        const filePath = path.join(this.rootDir, meta.id);
+        return fs.existsSync(filePath) ? { ...meta, size: String(fs.statSync(filePath).size) } : meta;
+    }
+
+    /** File resource response; the ETag header carries the file's etag like Drive's does */
+    private sendMetadata(res: Response, meta: any): void {
+        res.setHeader('ETag', `"${meta.etag}"`);
+        res.json(meta);
+    }
+
+    private saveMetadata(id: string, meta: any): void {
+        this.metadataParams.set(id, meta);
+        this.changeLog.push(id);
+    }
+
+    /** Drive refuses to create a file with an ID that is already in use */
+    private rejectTakenId(id: string | undefined, res: Response): boolean {
+        if (!id || !this.metadataParams.has(id)) return false;
+        res.status(409).json({ error: { message: 'A file already exists with the provided ID.', errors: [{ reason: 'fileIdInUse' }] } });
+        return true;
+    }
+
+    /** Drive reports a hex MD5 of the content of every binary (non-Google-Docs) file */
+    private md5(content: Uint8Array | string): string {
+        return crypto.createHash('md5').update(content).digest('hex');
+    }
+
     private generateId(): string {
         return Math.random().toString(36).substring(2, 15);
     }
@@ -0,0 +1,66 @@
+import PouchDB from 'pouchdb-core';
+import GoogleDriveAdapter from '../src/adapter';
+import { TestServer } from '../tests-src/server';
+import { getTestOptions, isProd } from '../tests-src/test-config';
+
+const AdapterConstructor = GoogleDriveAdapter(PouchDB);
+(PouchDB as any).adapter('googledrive', AdapterConstructor);
+
+describe('allDocs', () => {
+    let server: TestServer;
+    let PORT: number;
+    let db: any;
+
+    beforeAll(async () => {
+        if (!isProd) {
+            server = new TestServer(0, '.test-drive-alldocs');
+            PORT = await server.start();
+        }
+        const dbName = 'alldocs-' + Date.now();
+        db = new PouchDB(dbName, { ...getTestOptions(dbName, PORT), folderName: dbName } as any);
+        await db.info();
+        await db.bulkDocs(['a', 'b', 'c', 'd', 'e'].map(_id => ({ _id, n: _id })));
+        await db.remove('c', (await db.get('c'))._rev);
+        await db.bulkDocs([{ _id: 'd', _rev: '1-0', n: 'old' }], { new_edits: false });
+        await db.put({ _id: '_local/state', n: 'local' });
+    });
+
+    afterAll(async () => {
+        if (db) await db.close();
+        if (server) await server.stop();
+    });
+
+    const ids = (res: any) => res.rows.map((r: any) => r.id);
+
+    test('should answer ranges like CouchDB', async () => {
+        const all = await db.allDocs({ update_seq: true });
+        expect(ids(all)).toEqual(['a', 'b', 'd', 'e']);
+        expect(all.total_rows).toBe(4);
+        expect(all.update_seq).toBe((await db.info()).update_seq);
+
+        expect(ids(await db.allDocs({ startkey: 'b', endkey: 'e', inclusive_end: false }))).toEqual(['b', 'd']);
+        expect(ids(await db.allDocs({ start_key: 'b', end_key: 'd' }))).toEqual(['b', 'd']);
+
+        const descending = await db.allDocs({ startkey: 'd', endkey: 'a', descending: true, skip: 1 });
+        expect(ids(descending)).toEqual(['b', 'a']);
+        expect(descending.offset).toBe(2);
+        expect(ids(await db.allDocs({ startkey: 'd', endkey: 'a', descending: true, inclusive_end: false }))).toEqual(['d', 'b']);
+        expect(ids(await db.allDocs({ key: 'c' }))).toEqual([]);
+        expect(ids(await db.allDocs({ limit: 0 }))).toEqual([]);
+
+        const withConflicts = await db.allDocs({ key: 'd', include_docs: true, conflicts: true });
+        expect(withConflicts.rows[0].doc).toMatchObject({ _id: 'd', n: 'd', _conflicts: ['1-0'] });
+        expect(withConflicts.offset).toBe(2);
+    });
+
+    test('should report deleted and missing docs requested by key', async () => {
+        const res = await db.allDocs({ keys: ['e', 'c', 'nope', '_local/state', 'a'], include_docs: true });
+        expect(res.rows[0]).toMatchObject({ id: 'e', value: { rev: expect.stringMatching(/^1-/) }, doc: { n: 'e' } });
+        expect(res.rows[1]).toEqual({ id: 'c', key: 'c', value: { rev: expect.stringMatching(/^2-/), deleted: true }, doc: null });
+        expect(res.rows[2]).toEqual({ key: 'nope', error: 'not_found' });
+        expect(res.rows[3]).toEqual({ key: '_local/state', error: 'not_found' });
+
+        const page = await db.allDocs({ keys: ['a', 'b', 'c'], descending: true, skip: 1, limit: 1 });
+        expect(page.rows.map((r: any) => r.key)).toEqual(['b']);
+    });
+});
@@ -0,0 +1,111 @@
+import * as fs from 'fs';
+import PouchDB from 'pouchdb-core';
+import GoogleDriveAdapter from '../src/adapter';
+import { GoogleDriveClient } from '../src/client';
+import { FileSystemStore } from '../src/localcache';
+import { TestServer } from '../tests-src/server';
+import { getTestOptions, isProd } from '../tests-src/test-config';
+
+const AdapterConstructor = GoogleDriveAdapter(PouchDB);
+(PouchDB as any).adapter('googledrive', AdapterConstructor);
+
+const CACHE_DIR = '.test-drive-appdata-cache';
+
+describe('App data space', () => {
+    let server: TestServer;
+    let PORT: number;
+
+    beforeAll(async () => {
+        if (!isProd) {
+            server = new TestServer(0, '.test-drive-appdata');
+            PORT = await server.start();
+        }
+    });
+
+    afterAll(async () => {
+        if (server) await server.stop();
+        fs.rmSync(CACHE_DIR, { recursive: true, force: true });
+    });
+
+    beforeEach(() => {
+        if (server) server.reset();
+    });
+
+    const driveClient = (space?: 'appDataFolder', driveId?: string) => isProd
+        ? new GoogleDriveClient({ accessToken: getTestOptions('', PORT).accessToken, space, driveId })
+        : new GoogleDriveClient({
+            accessToken: 'mock-token',
+            baseUrl: `http://127.0.0.1:${PORT}/drive/v3/files`,
+            uploadUrl: `http://127.0.0.1:${PORT}/upload/drive/v3/files`,
+            space,
+            driveId
+        });
+
+    test('should keep each database in its own hidden subfolder', async () => {
+        const dbName = 'appdata-' + Date.now();
+        const opts = { ...getTestOptions(dbName, PORT), space: 'appDataFolder' } as any;
+        const db = new PouchDB(dbName, opts);
+        const otherDb = new PouchDB(dbName + '-other', { ...opts, folderName: undefined });
+        let reader: any;
+        try {
+            await db.info();
+            await db.put({ _id: 'settings', theme: 'dark' });
+            await otherDb.info();
+            await otherDb.put({ _id: 'settings', theme: 'light' });
+
+            const client = driveClient('appDataFolder');
+            const [folder] = await client.listFiles(`name = '${dbName}' and trashed = false`);
+            const appData = folder.parents![0];
+            const names = (await client.listFiles(`'${appData}' in parents and trashed = false`)).map(f => f.name).sort();
+            expect(names).toEqual([dbName, dbName + '-other']);
+            expect((await client.listFiles(`'${folder.id}' in parents and trashed = false`)).map(f => f.name)).toContain('_meta.json');
+
+            // Nothing shows up in the user's visible Drive
+            expect(await driveClient().listFiles(`name = '${dbName}' and trashed = false`)).toEqual([]);
+            expect(await driveClient().listFiles(`name = '_meta.json' and trashed = false`)).toEqual([]);
+
+            reader = new PouchDB(dbName, opts);
+            await reader.info();
+            expect((await reader.get('settings')).theme).toBe('dark');
+        } finally {
+            if (reader) await reader.close();
+            await otherDb.close();
+            await db.close();
+        }
+    });
+
+    test('should refuse the app data space together with a Shared Drive', () => {
+        expect(() => driveClient('appDataFolder', 'some-drive')).toThrow(/cannot be combined/);
+    });
+
+    test('should keep the local caches of app data and Drive databases apart', async () => {
+        const dbName = 'appdata-cache-' + Date.now();
+        const open = (extra: any = {}) => new PouchDB(dbName, {
+            ...getTestOptions(dbName, PORT),
+            localCache: new FileSystemStore(CACHE_DIR),
+            retry: { maxAttempts: 1 },
+            ...extra
+        } as any);
+        const visible = open();
+        const hidden = open({ space: 'appDataFolder' });
+        try {
+            await visible.put({ _id: 'visible' });
+            await hidden.put({ _id: 'hidden' });
+        } finally {
+            await visible.close();
+            await hidden.close();
+        }
+
+        const fetchSpy = jest.spyOn(global, 'fetch').mockRejectedValue(new TypeError('fetch failed'));
+        const offlineVisible = open();
+        const offlineHidden = open({ space: 'appDataFolder' });
+        try {
+            expect((await offlineVisible.allDocs()).rows.map(r => r.id)).toEqual(['visible']);
+            expect((await offlineHidden.allDocs()).rows.map(r => r.id)).toEqual(['hidden']);
+        } finally {
+            await offlineVisible.close();
+            await offlineHidden.close();
+            fetchSpy.mockRestore();
+        }
+    }, 30000);
+});
@@ -0,0 +1,155 @@
+import PouchDB from 'pouchdb-core';
+import GoogleDriveAdapter from '../src/adapter';
+import Replication from 'pouchdb-replication';
+import MemoryAdapter from 'pouchdb-adapter-memory';
+import { GoogleDriveClient } from '../src/client';
+import { TestServer } from '../tests-src/server';
+import { getTestOptions, isProd, accessToken } from '../tests-src/test-config';
+
+PouchDB.plugin(Replication);
+PouchDB.plugin(MemoryAdapter);
+
+const AdapterConstructor = GoogleDriveAdapter(PouchDB);
+(PouchDB as any).adapter('googledrive', AdapterConstructor);
+
+describe('Attachments', () => {
+    let server: TestServer;
+    let PORT: number;
+    let client: GoogleDriveClient;
+
+    beforeAll(async () => {
+        if (!isProd) {
+            server = new TestServer(0, '.test-drive-attachments');
+            PORT = await server.start();
+            client = new GoogleDriveClient({
+                accessToken: 'mock-token',
+                baseUrl: `http://127.0.0.1:${PORT}/drive/v3/files`,
+                uploadUrl: `http://127.0.0.1:${PORT}/upload/drive/v3/files`
+            });
+        } else {
+            client = new GoogleDriveClient({ accessToken });
+        }
+    });
+
+    afterAll(async () => {
+        if (server) await server.stop();
+    });
+
+    beforeEach(() => {
+        if (server) server.reset();
+    });
+
+    async function listBlobs(dbName: string): Promise<string[]> {
+        const q = `name = '${dbName}' and mimeType = 'application/vnd.google-apps.folder' and trashed = false`;
+        const folders = await client.listFiles(q);
+        const files = await client.listFiles(`'${folders[0].id}' in parents and trashed = false`);
+        return files.map(f => f.name).filter(n => n.startsWith('attachment-'));
+    }
+
+    test('should store attachments as deduplicated blobs and serve them back', async () => {
+        const dbName = 'attachments-' + Date.now();
+        const db = new PouchDB(dbName, getTestOptions(dbName, PORT) as any);
+        const photo = Buffer.from([0, 1, 2, 253, 254, 255, 10, 13]);
+
+        try {
+            const res = await db.putAttachment('doc1', 'photo.bin', photo, 'application/octet-stream');
+            await db.put({
+                _id: 'doc2',
+                _attachments: {
+                    'copy.bin': { content_type: 'application/octet-stream', data: photo.toString('base64') }
+                }
+            });
+
+            const doc: any = await db.get('doc1');
+            expect(doc._rev).toBe(res.rev);
+            expect(doc._attachments['photo.bin']).toMatchObject({ stub: true, length: photo.length });
+            expect(doc._attachments['photo.bin'].digest).toMatch(/^sha256-/);
+
+            const data = await db.getAttachment('doc1', 'photo.bin');
+            expect((data as Buffer).toString('hex')).toBe(photo.toString('hex'));
+
+            const inline: any = await db.get('doc2', { attachments: true });
+            expect(inline._attachments['copy.bin'].data).toBe(photo.toString('base64'));
+
+            // Same bytes, one blob
+            expect(await listBlobs(dbName)).toHaveLength(1);
+        } finally {
+            await db.close();
+        }
+    }, 60000);
+
+    test('should delete unreferenced blobs on compaction', async () => {
+        const dbName = 'attachments-gc-' + Date.now();
+        const db = new PouchDB(dbName, getTestOptions(dbName, PORT) as any);
+
+        try {
+            const res = await db.putAttachment('doc', 'a.txt', Buffer.from('first'), 'text/plain');
+            const removed = await db.removeAttachment('doc', 'a.txt', res.rev);
+            await db.putAttachment('doc', 'b.txt', removed.rev, Buffer.from('second'), 'text/plain');
+            expect(await listBlobs(dbName)).toHaveLength(2);
+
+            await new Promise(r => setTimeout(r, 10));
+            await db.compact();
+
+            expect(await listBlobs(dbName)).toHaveLength(1);
+            const data = await db.getAttachment('doc', 'b.txt');
+            expect((data as Buffer).toString()).toBe('second');
+        } finally {
+            await db.close();
+        }
+    }, 60000);
+
+    test('should replicate attachments to a local database', async () => {
+        const remoteName = 'attachments-remote-' + Date.now();
+        const remote = new PouchDB(remoteName, getTestOptions(remoteName, PORT) as any);
+        const local = new PouchDB('attachments-local-' + Date.now(), { adapter: 'memory' });
+
+        try {
+            await remote.putAttachment('doc', 'note.txt', Buffer.from('hello drive'), 'text/plain');
+
+            await new Promise<void>((resolve, reject) => {
+                remote.replicate.to(local)
+                    .on('complete', () => resolve())
+                    .on('error', (err) => reject(err));
+            });
+
+            const data = await local.getAttachment('doc', 'note.txt');
+            expect((data as Buffer).toString()).toBe('hello drive');
+        } finally {
+            await remote.close();
+            await local.close();
+        }
+    }, 60000);
+
+    test('should keep the digests of replicated attachments', async () => {
+        const remoteName = 'attachments-digest-' + Date.now();
+        const remote = new PouchDB(remoteName, getTestOptions(remoteName, PORT) as any);
+        const local = new PouchDB('attachments-source-' + Date.now(), { adapter: 'memory' });
+
+        try {
+            await local.putAttachment('doc', 'note.txt', Buffer.from('from couch'), 'text/plain');
+            const source: any = await local.get('doc');
+            expect(source._attachments['note.txt'].digest).toMatch(/^md5-/);
+
+            // What the replicator writes: the source revision with its attachment data
+            await remote.info();
+            const replicated = await local.get('doc', { revs: true, attachments: true });
+            await remote.bulkDocs([replicated], { new_edits: false });
+            const copy: any = await remote.get('doc');
+            expect(copy._attachments['note.txt'].digest).toBe(source._attachments['note.txt'].digest);
+            expect((await remote.getAttachment('doc', 'note.txt') as Buffer).toString()).toBe('from couch');
+            expect(await remote.revsDiff({ doc: [source._rev] })).toEqual({});
+
+            // A stale digest sent along with new data is recomputed
+            const edited: any = await remote.get('doc', { attachments: true });
+            edited._attachments['note.txt'].data = Buffer.from('edited').toString('base64');
+            await remote.put(edited);
+            const stub = (await remote.get('doc') as any)._attachments['note.txt'];
+            expect(stub.digest).toMatch(/^sha256-/);
+            expect((await remote.getAttachment('doc', 'note.txt') as Buffer).toString()).toBe('edited');
+        } finally {
+            await remote.close();
+            await local.close();
+        }
+    }, 60000);
+});
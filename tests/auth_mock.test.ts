@@ -0,0 +1,88 @@
+import { GoogleDriveClient } from '../src/client';
+
+const authHeader = (init: RequestInit) => (init.headers as Record<string, string>)['Authorization'];
+
+const ok = () => new Response(JSON.stringify({ files: [] }), { status: 200, headers: { 'Content-Type': 'application/json' } });
+
+const unauthorized = () => new Response(JSON.stringify({
+    error: { message: 'Invalid Credentials', errors: [{ reason: 'authError', message: 'Invalid Credentials' }] }
+}), { status: 401, headers: { 'Content-Type': 'application/json' } });
+
+describe('GoogleDriveClient token handling', () => {
+    let fetchMock: jest.SpyInstance;
+
+    beforeEach(() => {
+        fetchMock = jest.spyOn(global, 'fetch');
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    /** Provider handing out token-1, token-2, ... and a server that only accepts the latest one */
+    function setup(onAuthError?: (err: any) => void) {
+        let issued = 0;
+        const provider = jest.fn(async () => `token-${++issued}`);
+        fetchMock.mockImplementation(async (url: string, init: RequestInit) =>
+            authHeader(init) === `Bearer token-${issued}` ? ok() : unauthorized());
+        const client = new GoogleDriveClient({ accessToken: provider, onAuthError });
+        return { client, provider, expire: () => issued++ };
+    }
+
+    it('should cache the token between requests', async () => {
+        const { client, provider } = setup();
+
+        await client.listFiles("name = 'a'");
+        await client.listFiles("name = 'b'");
+
+        expect(provider).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refresh the token on 401 and replay the request once', async () => {
+        const { client, provider, expire } = setup();
+        await client.listFiles("name = 'a'");
+
+        // Token revoked server side; the provider hands out token-3 next
+        expire();
+        await expect(client.listFiles("name = 'b'")).resolves.toEqual([]);
+
+        expect(provider).toHaveBeenCalledTimes(2);
+        expect(authHeader(fetchMock.mock.calls[fetchMock.mock.calls.length - 1][1])).toBe('Bearer token-3');
+    });
+
+    it('should share one refresh between parallel requests', async () => {
+        const { client, provider, expire } = setup();
+        await client.listFiles("name = 'a'");
+
+        expire();
+        await Promise.all([1, 2, 3, 4].map(i => client.listFiles(`name = '${i}'`)));
+
+        expect(provider).toHaveBeenCalledTimes(2);
+    });
+
+    it('should call onAuthError when the refreshed token is rejected too', async () => {
+        const onAuthError = jest.fn();
+        fetchMock.mockImplementation(async () => unauthorized());
+        const provider = jest.fn(async () => 'stale');
+        const client = new GoogleDriveClient({ accessToken: provider, onAuthError });
+
+        await expect(client.deleteFile('a')).rejects.toMatchObject({ status: 401, code: 'authError' });
+
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+        expect(onAuthError).toHaveBeenCalledTimes(1);
+        expect(onAuthError.mock.calls[0][0]).toMatchObject({ status: 401 });
+    });
+
+    it('should call onAuthError when the provider fails', async () => {
+        const onAuthError = jest.fn();
+        const client = new GoogleDriveClient({
+            accessToken: async () => { throw new Error('refresh token revoked'); },
+            onAuthError
+        });
+
+        await expect(client.deleteFile('a')).rejects.toThrow('refresh token revoked');
+        expect(onAuthError).toHaveBeenCalledTimes(1);
+        expect(fetchMock).not.toHaveBeenCalled();
+    });
+});
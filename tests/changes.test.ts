@@ -0,0 +1,105 @@
+import { GoogleDriveClient } from '../src/client';
+import { DriveChangeFeed } from '../src/changes';
+import { DriveHandler } from '../src/drive';
+import { TestServer } from '../tests-src/server';
+import { getTestOptions, isProd, accessToken } from '../tests-src/test-config';
+
+const waitFor = async (condition: () => boolean, timeoutMs = 5000) => {
+    const start = Date.now();
+    while (!condition()) {
+        if (Date.now() - start > timeoutMs) throw new Error('Timed out');
+        await new Promise(r => setTimeout(r, 20));
+    }
+};
+
+describe('Drive Changes Feed', () => {
+    let server: TestServer;
+    let PORT: number;
+    let client: GoogleDriveClient;
+    let baseUrl: string;
+
+    beforeAll(async () => {
+        if (!isProd) {
+            server = new TestServer(0, '.test-drive-changes');
+            PORT = await server.start();
+            baseUrl = `http://127.0.0.1:${PORT}/drive/v3/files`;
+            client = new GoogleDriveClient({
+                accessToken: 'mock-token',
+                baseUrl,
+                uploadUrl: `http://127.0.0.1:${PORT}/upload/drive/v3/files`
+            });
+        } else {
+            baseUrl = '';
+            client = new GoogleDriveClient({ accessToken });
+        }
+    });
+
+    afterAll(async () => {
+        if (server) await server.stop();
+    });
+
+    beforeEach(() => {
+        if (server) server.reset();
+    });
+
+    test('should share one page token and dispatch changes per folder', async () => {
+        const folderA = await client.createFile('feed-a-' + Date.now(), undefined, 'application/vnd.google-apps.folder', '');
+        const folderB = await client.createFile('feed-b-' + Date.now(), undefined, 'application/vnd.google-apps.folder', '');
+        const tokenSpy = jest.spyOn(client, 'getStartPageToken');
+
+        const feed = DriveChangeFeed.shared(client, 'shared-creds', baseUrl);
+        expect(DriveChangeFeed.shared(client, 'shared-creds', baseUrl)).toBe(feed);
+
+        const seenA: string[] = [];
+        const seenB: string[] = [];
+        const unwatchA = await feed.watch(folderA.id, files => seenA.push(...files.map(f => f.name)));
+        const unwatchB = await feed.watch(folderB.id, files => seenB.push(...files.map(f => f.name)));
+
+        try {
+            await client.createFile('only-in-a.json', [folderA.id], 'application/json', '{}');
+            await feed.poll();
+
+            expect(seenA).toEqual(['only-in-a.json']);
+            expect(seenB).toEqual([]);
+            expect(tokenSpy).toHaveBeenCalledTimes(1);
+
+            // Nothing new since the last poll
+            await feed.poll();
+            expect(seenA).toHaveLength(1);
+        } finally {
+            unwatchA();
+            unwatchB();
+        }
+    }, 30000);
+
+    test('should reload only when another client commits _meta.json', async () => {
+        const dbName = 'changes-' + Date.now();
+        const options: any = { ...getTestOptions(dbName, PORT), folderName: dbName };
+        const reader = new DriveHandler({ ...options, pollingIntervalMs: 50, maxPollingIntervalMs: 100 }, dbName);
+        const writer = new DriveHandler(options, dbName);
+        await reader.load();
+        await writer.load();
+
+        const listSpy = jest.spyOn((reader as any).client, 'listFiles');
+        const loadSpy = jest.spyOn(reader, 'load');
+
+        try {
+            // Own write: visible in the feed but must not trigger a reload
+            await reader.appendChange({ seq: reader.getNextSeq(), id: 'mine', rev: '1-a', doc: { _id: 'mine' }, timestamp: Date.now() });
+            await new Promise(r => setTimeout(r, 300));
+            expect(loadSpy).not.toHaveBeenCalled();
+            listSpy.mockClear();
+
+            await writer.load();
+            await writer.appendChange({ seq: writer.getNextSeq(), id: 'theirs', rev: '1-b', doc: { _id: 'theirs' }, timestamp: Date.now() });
+            await waitFor(() => !!reader.getIndexEntry('theirs'));
+
+            // Detection went through the changes feed, not a _meta.json search per tick
+            const metaSearches = listSpy.mock.calls.filter(([q]) => (q as string).includes("name = '_meta.json'"));
+            expect(metaSearches.length).toBeLessThanOrEqual(loadSpy.mock.calls.length);
+        } finally {
+            reader.stopPolling();
+            writer.stopPolling();
+        }
+    }, 30000);
+});
@@ -0,0 +1,86 @@
+import PouchDB from 'pouchdb-core';
+import GoogleDriveAdapter from '../src/adapter';
+import { TestServer } from '../tests-src/server';
+import { getTestOptions, isProd } from '../tests-src/test-config';
+
+const AdapterConstructor = GoogleDriveAdapter(PouchDB);
+(PouchDB as any).adapter('googledrive', AdapterConstructor);
+
+describe('_changes', () => {
+    let server: TestServer;
+    let PORT: number;
+
+    beforeAll(async () => {
+        if (!isProd) {
+            server = new TestServer(0, '.test-drive-changes-feed');
+            PORT = await server.start();
+        }
+    });
+
+    afterAll(async () => {
+        if (server) await server.stop();
+    });
+
+    beforeEach(() => {
+        if (server) server.reset();
+    });
+
+    const open = (dbName: string): any =>
+        new PouchDB(dbName, { ...getTestOptions(dbName, PORT), folderName: dbName } as any);
+
+    test('should list changes in seq order, page with limit and flag deletions', async () => {
+        const db = open('changes-order-' + Date.now());
+        try {
+            await db.info();
+            const a = await db.put({ _id: 'a' });
+            await db.put({ _id: 'b' });
+            await db.put({ _id: 'c' });
+            await db.put({ _id: 'a', _rev: a.rev, updated: true });
+            await db.remove(await db.get('b'));
+
+            const first = await db.changes({ limit: 2 });
+            expect(first.results.map((r: any) => [r.id, r.seq])).toEqual([['c', 3], ['a', 4]]);
+            expect(first.last_seq).toBe(4);
+            const rest = await db.changes({ since: first.last_seq });
+            expect(rest.results).toEqual([{ id: 'b', seq: 5, deleted: true, changes: [{ rev: expect.stringMatching(/^2-/) }] }]);
+
+            const descending = await db.changes({ descending: true, since: 4 });
+            expect(descending.results.map((r: any) => r.id)).toEqual(['b', 'a', 'c']);
+            expect((await db.changes({ since: 'now' })).results).toEqual([]);
+        } finally {
+            await db.close();
+        }
+    }, 30000);
+
+    test('should filter by doc_ids, selector, filter functions and views', async () => {
+        const db = open('changes-filter-' + Date.now());
+        try {
+            await db.info();
+            await db.bulkDocs([
+                {
+                    _id: '_design/app',
+                    filters: { important: 'function (doc, req) { return doc.priority >= Number(req.query.min); }' },
+                    views: { tasks: { map: 'function (doc) { if (doc.type === "task") emit(doc._id); }' } }
+                },
+                { _id: 't1', type: 'task', priority: 1 },
+                { _id: 't2', type: 'task', priority: 5 },
+                { _id: 'n1', type: 'note', priority: 9 }
+            ]);
+            await db.bulkDocs([{ _id: 't2', _rev: '1-0', type: 'task', priority: 0 }], { new_edits: false });
+
+            const ids = async (opts: any) => (await db.changes(opts)).results.map((r: any) => r.id);
+            expect(await ids({ doc_ids: ['t1', 'n1'] })).toEqual(['t1', 'n1']);
+            expect(await ids({ selector: { type: 'task' } })).toEqual(['t1', 't2']);
+            expect(await ids({ filter: (doc: any) => doc.priority > 3 })).toEqual(['n1', 't2']);
+            expect(await ids({ filter: 'app/important', query_params: { min: 5 } })).toEqual(['n1', 't2']);
+            expect(await ids({ filter: '_view', view: 'app/tasks' })).toEqual(['t1', 't2']);
+
+            const t2 = (await db.changes({ doc_ids: ['t2'], include_docs: true, conflicts: true, style: 'all_docs' })).results[0];
+            expect(t2.changes).toHaveLength(2);
+            expect(t2.doc._conflicts).toHaveLength(1);
+            await expect(db.changes({ filter: 'app/missing' })).rejects.toMatchObject({ status: 404 });
+        } finally {
+            await db.close();
+        }
+    }, 30000);
+});
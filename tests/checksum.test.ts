@@ -0,0 +1,125 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { digestOf } from '../src/attachments';
+import { DriveHandler } from '../src/drive';
+import { TestServer } from '../tests-src/server';
+import { getTestOptions, isProd } from '../tests-src/test-config';
+
+const STORAGE_DIR = '.test-drive-checksum';
+
+const waitFor = async (condition: () => boolean, timeoutMs = 5000) => {
+    const start = Date.now();
+    while (!condition()) {
+        if (Date.now() - start > timeoutMs) throw new Error('Timed out');
+        await new Promise(r => setTimeout(r, 20));
+    }
+};
+
+describe('Checksums', () => {
+    let server: TestServer;
+    let PORT: number;
+
+    beforeAll(async () => {
+        if (!isProd) {
+            server = new TestServer(0, STORAGE_DIR);
+            PORT = await server.start();
+        }
+    });
+
+    afterAll(async () => {
+        if (server) await server.stop();
+    });
+
+    beforeEach(() => {
+        if (server) server.reset();
+    });
+
+    const change = (handler: DriveHandler, id: string, doc: any) =>
+        handler.appendChange({ seq: handler.getNextSeq(), id, rev: '1-' + id, doc: { _id: id, ...doc }, timestamp: Date.now() });
+
+    test('should raise corrupted_file when a downloaded file does not match its checksum', async () => {
+        if (isProd) return;
+        const dbName = 'checksum-' + Date.now();
+        const options: any = { ...getTestOptions(dbName, PORT), folderName: dbName };
+        const writer = new DriveHandler(options, dbName);
+        await writer.load();
+        await change(writer, 'a', { value: 'snapshot body' });
+        await writer.compact();
+        await change(writer, 'b', { value: 'log body' });
+
+        const chunkId = (writer as any).snapshotChunks[0].fileId;
+        const logId = (writer as any).meta.changeLogIds[0];
+        expect((writer as any).meta.checksums[logId].sha256).toMatch(/^sha256-/);
+        fs.writeFileSync(path.join(STORAGE_DIR, chunkId), '{"docs":{"a":{"_id":"a","value":"tampered"}}}');
+
+        const reader = new DriveHandler(options, dbName);
+        await reader.load();
+        await expect(reader.get('a')).rejects.toMatchObject({ code: 'corrupted_file', fileId: chunkId });
+        await expect(reader.getMulti(['a', 'b'])).rejects.toMatchObject({ code: 'corrupted_file' });
+        expect((await reader.get('b')).value).toBe('log body');
+
+        // A truncated change log fails the load instead of dropping its changes
+        const log = fs.readFileSync(path.join(STORAGE_DIR, logId), 'utf8');
+        fs.writeFileSync(path.join(STORAGE_DIR, logId), log.substring(0, log.length - 5));
+        await expect(new DriveHandler(options, dbName).load()).rejects.toMatchObject({ code: 'corrupted_file', fileId: logId });
+    }, 30000);
+
+    test('should flag a data file whose Drive md5 changed without downloading it', async () => {
+        const dbName = 'checksum-md5-' + Date.now();
+        const options: any = { ...getTestOptions(dbName, PORT), folderName: dbName };
+        const writer = new DriveHandler(options, dbName);
+        await writer.load();
+        await change(writer, 'doc', { value: 1 });
+        const logId = (writer as any).meta.changeLogIds[0];
+
+        const reader = new DriveHandler({ ...options, pollingIntervalMs: 50 }, dbName);
+        await reader.load();
+        try {
+            // Replaced through the Drive API: same file ID, new content and md5
+            await (writer as any).client.updateFile(logId, '{"id":"doc","rev":"1-doc","doc":{"_id":"doc","value":2}}', undefined, 'text/plain');
+            await waitFor(() => (reader as any).changedFiles.has(logId));
+
+            const client = (reader as any).client;
+            const downloads = ['getFile', 'getFileBinary', 'getFileRange'].map(method => jest.spyOn(client, method));
+            await expect(reader.get('doc')).rejects.toMatchObject({ code: 'corrupted_file' });
+            downloads.forEach(spy => expect(spy).not.toHaveBeenCalled());
+        } finally {
+            reader.stopPolling();
+        }
+    }, 30000);
+
+    test('should not trust byte ranges or blobs of files replaced after upload', async () => {
+        if (isProd) return;
+        const dbName = 'checksum-range-' + Date.now();
+        const options: any = { ...getTestOptions(dbName, PORT), folderName: dbName };
+        const writer = new DriveHandler(options, dbName);
+        await writer.load();
+        await change(writer, 'a', { value: 'original' });
+        await change(writer, 'b', { value: 'original' });
+        await writer.compact();
+        const blob = new TextEncoder().encode('attachment body');
+        const digest = await digestOf(blob);
+        await writer.saveAttachment(digest, blob, 'text/plain');
+
+        // Same length, so every recorded byte range still parses as the right doc and rev
+        const client = (writer as any).client;
+        const chunkId = (writer as any).snapshotChunks[0].fileId;
+        const chunk = fs.readFileSync(path.join(STORAGE_DIR, chunkId), 'utf8');
+        await client.updateFile(chunkId, chunk.split('original').join('tampered'), undefined, 'text/plain');
+        const blobId = (writer as any).attachmentFiles.get(digest);
+        await client.updateFile(blobId, new TextEncoder().encode('attachment b0dy'), undefined, 'text/plain');
+
+        const reader = new DriveHandler(options, dbName);
+        await reader.load();
+        await expect(reader.get('a')).rejects.toMatchObject({ code: 'corrupted_file', fileId: chunkId });
+        await expect(reader.getAttachmentData(digest)).rejects.toMatchObject({ code: 'corrupted_file', fileId: blobId });
+
+        // The md5 in a listing flags the file before anything is downloaded
+        const lister = new DriveHandler(options, dbName);
+        await lister.load();
+        await lister.listDatabaseFiles();
+        const downloads = ['getFile', 'getFileBinary', 'getFileRange', 'getFileMetadata'].map(method => jest.spyOn((lister as any).client, method));
+        await expect(lister.get('b')).rejects.toMatchObject({ code: 'corrupted_file', fileId: chunkId });
+        downloads.forEach(spy => expect(spy).not.toHaveBeenCalled());
+    }, 30000);
+});
@@ -0,0 +1,82 @@
+import PouchDB from 'pouchdb-core';
+import GoogleDriveAdapter from '../src/adapter';
+import { GoogleDriveClient } from '../src/client';
+import { TestServer } from '../tests-src/server';
+import { getTestOptions, isProd } from '../tests-src/test-config';
+
+const AdapterConstructor = GoogleDriveAdapter(PouchDB);
+(PouchDB as any).adapter('googledrive', AdapterConstructor);
+
+describe('Write Coalescing', () => {
+    let server: TestServer;
+    let PORT: number;
+
+    beforeAll(async () => {
+        if (!isProd) {
+            server = new TestServer(0, '.test-drive-coalesce');
+            PORT = await server.start();
+        }
+    });
+
+    afterAll(async () => {
+        if (server) await server.stop();
+    });
+
+    beforeEach(() => {
+        if (server) server.reset();
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    const logUploads = (spy: jest.SpyInstance) => spy.mock.calls.filter(([name]) => String(name).startsWith('changes-')).length;
+
+    test('should commit closely spaced writes as one change log', async () => {
+        const dbName = 'coalesce-' + Date.now();
+        const db = new PouchDB(dbName, { ...getTestOptions(dbName, PORT), writeCoalesceMs: 100 } as any);
+        try {
+            await db.info();
+            const createSpy = jest.spyOn(GoogleDriveClient.prototype, 'createFile');
+            const updateSpy = jest.spyOn(GoogleDriveClient.prototype, 'updateFile');
+
+            const results = await Promise.all(
+                Array.from({ length: 10 }, (_, i) => db.put({ _id: `doc${i}`, i }))
+            );
+
+            expect(results.every(r => r.ok)).toBe(true);
+            expect(new Set(results.map(r => r.rev)).size).toBe(10);
+            expect(logUploads(createSpy)).toBe(1);
+            expect(updateSpy).toHaveBeenCalledTimes(1); // one _meta.json commit
+
+            const all = await db.allDocs();
+            expect(all.rows.map(r => r.id)).toEqual(Array.from({ length: 10 }, (_, i) => `doc${i}`));
+        } finally {
+            await db.close();
+        }
+    }, 30000);
+
+    test('should split batches at maxBatchSize and reject only the conflicting caller', async () => {
+        const dbName = 'coalesce-batch-' + Date.now();
+        const db = new PouchDB(dbName, { ...getTestOptions(dbName, PORT), writeCoalesceMs: 100, maxBatchSize: 3 } as any);
+        try {
+            await db.info();
+            const createSpy = jest.spyOn(GoogleDriveClient.prototype, 'createFile');
+
+            await Promise.all(Array.from({ length: 7 }, (_, i) => db.put({ _id: `doc${i}` })));
+            expect(logUploads(createSpy)).toBe(3);
+
+            // Both create the same new doc; only the first one in the batch wins
+            const outcomes = await Promise.allSettled([
+                db.put({ _id: 'same', by: 'first' }),
+                db.put({ _id: 'same', by: 'second' }),
+                db.put({ _id: 'other' })
+            ]);
+            expect(outcomes.map(o => o.status)).toEqual(['fulfilled', 'rejected', 'fulfilled']);
+            expect((outcomes[1] as PromiseRejectedResult).reason).toMatchObject({ status: 409 });
+            expect((await db.get('same') as any).by).toBe('first');
+        } finally {
+            await db.close();
+        }
+    }, 30000);
+});
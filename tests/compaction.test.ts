@@ -88,4 +88,50 @@ describe('Compaction & Append-Log', () => {
             await db.close();
         }
     }, 90000); // 90s timeout
+
+    it('should rewrite only the snapshot chunks holding changed docs', async () => {
+        const name = 'test-chunks-' + Date.now();
+        const db = new PouchDB(name, {
+            ...getTestOptions(name, port),
+            snapshotChunkSize: 250 // Roughly two docs per chunk
+        } as any);
+
+        const readIndex = async () => {
+            const folders = await client.listFiles(`name = '${name}' and mimeType = 'application/vnd.google-apps.folder' and trashed = false`);
+            const metaFiles = await client.listFiles(`name = '_meta.json' and '${folders[0].id}' in parents and trashed = false`);
+            const meta = await client.getFile(metaFiles[0].id);
+            return client.getFile(meta.snapshotIndexId);
+        };
+
+        try {
+            for (let i = 1; i <= 6; i++) {
+                await db.put({ _id: `doc${i}`, payload: 'x'.repeat(60) });
+            }
+            await db.compact();
+
+            const first = await readIndex();
+            expect(first.chunks.length).toBe(3);
+            const chunkOf = (index: any, id: string) => index.chunks.find((c: any) => c.docIds.includes(id));
+            const dirty = chunkOf(first, 'doc1');
+
+            const doc1: any = await db.get('doc1');
+            await db.put({ ...doc1, payload: 'changed' });
+            await db.compact();
+
+            const second = await readIndex();
+            const carried = first.chunks.filter((c: any) => c !== dirty).map((c: any) => c.fileId);
+            expect(second.chunks.map((c: any) => c.fileId)).toEqual(expect.arrayContaining(carried));
+            expect(chunkOf(second, 'doc1').fileId).not.toBe(dirty.fileId);
+            expect(chunkOf(second, 'doc2').fileId).toBe(chunkOf(second, 'doc1').fileId);
+
+            // The replaced chunk is gone, the carried ones are still readable
+            await expect(client.getFile(dirty.fileId)).rejects.toBeTruthy();
+            for (const fileId of carried) await expect(client.getFile(fileId)).resolves.toBeTruthy();
+
+            const all = await db.allDocs({ include_docs: true });
+            expect(all.rows.map((r: any) => r.doc.payload)).toEqual(['changed', ...Array(5).fill('x'.repeat(60))]);
+        } finally {
+            await db.close();
+        }
+    }, 60000);
 });
@@ -0,0 +1,107 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import PouchDB from 'pouchdb-core';
+import GoogleDriveAdapter from '../src/adapter';
+import { TestServer } from '../tests-src/server';
+import { getTestOptions, isProd } from '../tests-src/test-config';
+
+const AdapterConstructor = GoogleDriveAdapter(PouchDB);
+(PouchDB as any).adapter('googledrive', AdapterConstructor);
+
+const STORAGE_DIR = '.test-drive-compression';
+
+describe('Compression', () => {
+    let server: TestServer;
+    let PORT: number;
+
+    beforeAll(async () => {
+        if (!isProd) {
+            server = new TestServer(0, STORAGE_DIR);
+            PORT = await server.start();
+        }
+    });
+
+    afterAll(async () => {
+        if (server) await server.stop();
+    });
+
+    beforeEach(() => {
+        if (server) server.reset();
+    });
+
+    const open = (dbName: string, extra: any = {}) =>
+        new PouchDB(dbName, { ...getTestOptions(dbName, PORT), folderName: dbName, ...extra } as any);
+
+    test('should gzip logs and snapshots and read them back', async () => {
+        if (isProd) return;
+        const dbName = 'gzip-' + Date.now();
+        const writer = open(dbName, { compression: 'gzip' });
+        const text = 'the same words over and over '.repeat(50);
+        await writer.bulkDocs(Array.from({ length: 20 }, (_, i) => ({ _id: `doc${i}`, text })));
+        await writer.put({ _id: '_local/state', text });
+        await writer.compact();
+        await writer.put({ _id: 'late', text });
+        await writer.close();
+
+        // Only _meta.json stays plain JSON; every other file is gzip and much smaller than its content
+        const files = fs.readdirSync(STORAGE_DIR).map(name => fs.readFileSync(path.join(STORAGE_DIR, name)));
+        const gzipped = files.filter(f => f[0] === 0x1f && f[1] === 0x8b);
+        expect(gzipped.length).toBeGreaterThanOrEqual(4); // chunk, index, _local docs, change log
+        expect(Math.max(...gzipped.map(f => f.length))).toBeLessThan(text.length);
+
+        const reader = open(dbName);
+        try {
+            await reader.info();
+            expect((await reader.get('doc7') as any).text).toBe(text);
+            expect((await reader.get('late') as any).text).toBe(text);
+            expect((await reader.get('_local/state') as any).text).toBe(text);
+        } finally {
+            await reader.close();
+        }
+    }, 30000);
+
+    test('should load a mix of plain and compressed files', async () => {
+        const dbName = 'gzip-mixed-' + Date.now();
+        const plain = open(dbName);
+        await plain.put({ _id: 'before', n: 1 });
+        await plain.close();
+
+        const compressed = open(dbName, { compression: 'gzip' });
+        await compressed.info();
+        await compressed.put({ _id: 'after', n: 2 });
+        await compressed.close();
+
+        const reader = open(dbName);
+        try {
+            await reader.info();
+            const all = await reader.allDocs({ include_docs: true });
+            expect(all.rows.map(r => [r.id, (r.doc as any).n])).toEqual([['after', 2], ['before', 1]]);
+        } finally {
+            await reader.close();
+        }
+    }, 30000);
+
+    test('should keep _local docs readable after turning compression on for an existing database', async () => {
+        const dbName = 'gzip-local-' + Date.now();
+        const plain = open(dbName);
+        await plain.put({ _id: '_local/checkpoint', seq: 1 });
+        await plain.close();
+
+        const compressed = open(dbName, { compression: 'gzip' });
+        await compressed.info();
+        const checkpoint: any = await compressed.get('_local/checkpoint');
+        await compressed.put({ ...checkpoint, seq: 2 });
+        await compressed.close();
+
+        const reader = open(dbName);
+        try {
+            await reader.info();
+            const latest: any = await reader.get('_local/checkpoint');
+            expect(latest.seq).toBe(2);
+            await reader.put({ ...latest, seq: 3 });
+            expect((await reader.get('_local/checkpoint') as any).seq).toBe(3);
+        } finally {
+            await reader.close();
+        }
+    }, 30000);
+});
@@ -37,6 +37,12 @@ describe('Concurrency & Race Conditions', () => {
                     if (!file) throw { status: 404 };
                     return file.content;
                 }),
+                getFileBinary: jest.fn(async (fileId: string) => {
+                    await delay();
+                    const file = mockStorage[fileId];
+                    if (!file) throw { status: 404 };
+                    return new TextEncoder().encode(file.raw);
+                }),
                 createFile: jest.fn(async (name: string, parents: string[] | undefined, mimeType: string, content: string) => {
                     await delay();
                     const id = 'file-' + Date.now() + Math.random();
@@ -47,7 +53,7 @@ describe('Concurrency & Race Conditions', () => {
                     } catch {
                         parsedContent = content; // NDJSON or raw
                     }
-                    const file = { id, name, content: parsedContent, etag };
+                    const file = { id, name, content: parsedContent, raw: content, etag };
                     mockStorage[id] = file;
                     mockEtags[id] = etag;
                     return { id, etag };
@@ -69,6 +75,7 @@ describe('Concurrency & Race Conditions', () => {
                     } catch {
                         file.content = content;
                     }
+                    file.raw = content;
                     const newEtag = 'etag-' + Date.now();
                     mockEtags[id] = newEtag;
                     file.etag = newEtag;
@@ -0,0 +1,130 @@
+import PouchDB from 'pouchdb-core';
+import GoogleDriveAdapter from '../src/adapter';
+import Replication from 'pouchdb-replication';
+import MemoryAdapter from 'pouchdb-adapter-memory';
+import { TestServer } from '../tests-src/server';
+import { getTestOptions, isProd } from '../tests-src/test-config';
+
+PouchDB.plugin(Replication);
+PouchDB.plugin(MemoryAdapter);
+
+const AdapterConstructor = GoogleDriveAdapter(PouchDB);
+(PouchDB as any).adapter('googledrive', AdapterConstructor);
+
+describe('Revision Trees & Conflicts', () => {
+    let server: TestServer;
+    let PORT: number;
+
+    beforeAll(async () => {
+        if (!isProd) {
+            server = new TestServer(0, '.test-drive-conflicts');
+            PORT = await server.start();
+        }
+    });
+
+    afterAll(async () => {
+        if (server) await server.stop();
+    });
+
+    beforeEach(() => {
+        if (server) server.reset();
+    });
+
+    test('should keep conflicting branches grafted with new_edits=false', async () => {
+        const dbName = 'conflicts-' + Date.now();
+        const db = new PouchDB(dbName, getTestOptions(dbName, PORT) as any);
+
+        try {
+            const first = await db.put({ _id: 'doc', owner: 'a' });
+            const second = await db.put({ _id: 'doc', _rev: first.rev, owner: 'a', v: 2 });
+
+            // Another device edited rev 1 offline
+            const firstHash = first.rev.split('-')[1];
+            await db.bulkDocs([{
+                _id: 'doc',
+                _rev: '2-zzzzzzzz',
+                _revisions: { start: 2, ids: ['zzzzzzzz', firstHash] },
+                owner: 'b'
+            }], { new_edits: false });
+
+            const winner: any = await db.get('doc', { conflicts: true });
+            expect(winner._rev).toBe('2-zzzzzzzz');
+            expect(winner._conflicts).toEqual([second.rev]);
+
+            const loser: any = await db.get('doc', { rev: second.rev, revs: true });
+            expect(loser.owner).toBe('a');
+            expect(loser._revisions).toEqual({ start: 2, ids: [second.rev.split('-')[1], firstHash] });
+
+            const openRevs: any = await db.get('doc', { open_revs: 'all' });
+            expect(openRevs.map((r: any) => r.ok._rev).sort()).toEqual(['2-zzzzzzzz', second.rev].sort());
+
+            const specific: any = await db.get('doc', { open_revs: [second.rev, '9-nope'] });
+            expect(specific[0].ok._rev).toBe(second.rev);
+            expect(specific[1]).toEqual({ missing: '9-nope' });
+
+            // Resolving the conflict removes the losing leaf
+            await db.remove('doc', second.rev);
+            const resolved: any = await db.get('doc', { conflicts: true, revs_info: true });
+            expect(resolved._conflicts).toBeUndefined();
+            expect(resolved._revs_info[0]).toEqual({ rev: '2-zzzzzzzz', status: 'available' });
+        } finally {
+            await db.close();
+        }
+    }, 60000);
+
+    test('should reject edits of a stale revision', async () => {
+        const dbName = 'stale-' + Date.now();
+        const db = new PouchDB(dbName, getTestOptions(dbName, PORT) as any);
+
+        try {
+            const first = await db.put({ _id: 'doc', v: 1 });
+            await db.put({ _id: 'doc', _rev: first.rev, v: 2 });
+
+            await expect(db.put({ _id: 'doc', _rev: first.rev, v: 3 })).rejects.toMatchObject({ status: 409 });
+            await expect(db.put({ _id: 'doc', v: 4 })).rejects.toMatchObject({ status: 409 });
+        } finally {
+            await db.close();
+        }
+    }, 60000);
+
+    test('should replicate conflicting branches to other devices', async () => {
+        const remoteName = 'conflict-remote-' + Date.now();
+        const remote = new PouchDB(remoteName, getTestOptions(remoteName, PORT) as any);
+        const deviceA = new PouchDB('device-a-' + Date.now(), { adapter: 'memory' });
+        const deviceB = new PouchDB('device-b-' + Date.now(), { adapter: 'memory' });
+
+        // Push the way the replicator writes to a target
+        const push = async (device: any) => {
+            const doc = await device.get('shared', { revs: true });
+            await remote.bulkDocs({ docs: [doc], new_edits: false } as any);
+        };
+
+        try {
+            const base = await deviceA.put({ _id: 'shared', text: 'base' });
+            await push(deviceA);
+            await deviceB.bulkDocs([await deviceA.get('shared', { revs: true })], { new_edits: false });
+
+            // Both devices edit offline
+            await deviceA.put({ _id: 'shared', _rev: base.rev, text: 'from A' });
+            await deviceB.put({ _id: 'shared', _rev: base.rev, text: 'from B' });
+            await push(deviceA);
+            await push(deviceB);
+
+            const onDrive: any = await remote.get('shared', { conflicts: true });
+            expect(onDrive._conflicts).toHaveLength(1);
+
+            await new Promise<void>((resolve, reject) => {
+                remote.replicate.to(deviceA)
+                    .on('complete', () => resolve())
+                    .on('error', (err) => reject(err));
+            });
+            const onA: any = await deviceA.get('shared', { conflicts: true });
+            expect(onA._rev).toBe(onDrive._rev);
+            expect(onA._conflicts).toEqual(onDrive._conflicts);
+        } finally {
+            await remote.close();
+            await deviceA.close();
+            await deviceB.close();
+        }
+    }, 60000);
+});
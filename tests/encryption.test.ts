@@ -0,0 +1,185 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import PouchDB from 'pouchdb-core';
+import GoogleDriveAdapter from '../src/adapter';
+import { GoogleDriveClient } from '../src/client';
+import { FileSystemStore } from '../src/localcache';
+import { TestServer } from '../tests-src/server';
+import { getTestOptions, isProd } from '../tests-src/test-config';
+
+const AdapterConstructor = GoogleDriveAdapter(PouchDB);
+(PouchDB as any).adapter('googledrive', AdapterConstructor);
+
+const STORAGE_DIR = '.test-drive-encryption';
+const CACHE_DIR = '.test-drive-encryption-cache';
+const keyA = new Uint8Array(32).fill(1);
+const keyB = new Uint8Array(32).fill(2);
+
+describe('Encryption', () => {
+    let server: TestServer;
+    let PORT: number;
+
+    beforeAll(async () => {
+        if (!isProd) {
+            server = new TestServer(0, STORAGE_DIR);
+            PORT = await server.start();
+        }
+    });
+
+    afterAll(async () => {
+        if (server) await server.stop();
+        fs.rmSync(CACHE_DIR, { recursive: true, force: true });
+    });
+
+    beforeEach(() => {
+        if (server) server.reset();
+    });
+
+    const open = (dbName: string, encryption?: any, extra: any = {}) =>
+        new PouchDB(dbName, { ...getTestOptions(dbName, PORT), folderName: dbName, encryption, ...extra } as any);
+
+    const storedContents = () => fs.readdirSync(STORAGE_DIR)
+        .map(name => fs.readFileSync(path.join(STORAGE_DIR, name)).toString('latin1'))
+        .join('\n');
+
+    test('should store only ciphertext and read it back with the same key', async () => {
+        if (isProd) return;
+        const dbName = 'encrypted-' + Date.now();
+        const writer = open(dbName, { key: keyA });
+        await writer.put({
+            _id: 'patient-record',
+            note: 'top-secret diagnosis',
+            _attachments: { 'scan.txt': { content_type: 'text/plain', data: Buffer.from('top-secret scan').toString('base64') } }
+        });
+        await writer.put({ _id: '_local/checkpoint', note: 'top-secret checkpoint' });
+        await writer.compact();
+        await writer.put({ _id: 'after-compaction', note: 'top-secret later' });
+        await writer.close();
+
+        const contents = storedContents();
+        expect(contents).toContain('AES-GCM'); // the plaintext _meta.json header
+        expect(contents).not.toContain('top-secret');
+        expect(contents).not.toContain('patient-record');
+
+        const reader = open(dbName, { key: Buffer.from(keyA).toString('base64') });
+        try {
+            await reader.info();
+            const doc: any = await reader.get('patient-record', { attachments: true });
+            expect(doc.note).toBe('top-secret diagnosis');
+            expect(Buffer.from(doc._attachments['scan.txt'].data, 'base64').toString()).toBe('top-secret scan');
+            expect((await reader.get('after-compaction') as any).note).toBe('top-secret later');
+            expect((await reader.get('_local/checkpoint') as any).note).toBe('top-secret checkpoint');
+        } finally {
+            await reader.close();
+        }
+    }, 30000);
+
+    test('should reject a wrong or missing key', async () => {
+        const dbName = 'encrypted-keys-' + Date.now();
+        const db = open(dbName, { passphrase: 'correct horse' });
+        await db.put({ _id: 'doc', value: 1 });
+        await db.close();
+
+        await expect(open(dbName, { passphrase: 'battery staple' }).info())
+            .rejects.toMatchObject({ status: 401, code: 'wrong_encryption_key' });
+        await expect(open(dbName).info())
+            .rejects.toMatchObject({ status: 401, code: 'encryption_key_required' });
+
+        const again = open(dbName, { passphrase: 'correct horse' });
+        try {
+            await again.info();
+            expect((await again.get('doc') as any).value).toBe(1);
+        } finally {
+            await again.close();
+        }
+    }, 60000);
+
+    test('should re-encrypt everything with the new key on compaction', async () => {
+        const dbName = 'encrypted-rotation-' + Date.now();
+        const old = open(dbName, { key: keyA });
+        await old.put({
+            _id: 'doc',
+            value: 1,
+            _attachments: { 'a.txt': { content_type: 'text/plain', data: Buffer.from('blob').toString('base64') } }
+        });
+        await old.put({ _id: '_local/state', value: 'local' });
+        await old.close();
+
+        const rotating = open(dbName, { key: keyB, previousKeys: [{ key: keyA }] });
+        await rotating.info();
+        expect((await rotating.get('doc') as any).value).toBe(1);
+        await rotating.put({ _id: 'doc2', value: 2 });
+        await rotating.compact();
+        await rotating.close();
+
+        const rotated = open(dbName, { key: keyB });
+        try {
+            await rotated.info();
+            const doc: any = await rotated.get('doc', { attachments: true });
+            expect(doc.value).toBe(1);
+            expect(Buffer.from(doc._attachments['a.txt'].data, 'base64').toString()).toBe('blob');
+            expect((await rotated.get('doc2') as any).value).toBe(2);
+            expect((await rotated.get('_local/state') as any).value).toBe('local');
+        } finally {
+            await rotated.close();
+        }
+
+        await expect(open(dbName, { key: keyA }).info())
+            .rejects.toMatchObject({ code: 'wrong_encryption_key' });
+    }, 30000);
+
+    test('should encrypt the local cache with the same key', async () => {
+        const dbName = 'encrypted-cache-' + Date.now();
+        const cached = { localCache: new FileSystemStore(CACHE_DIR), retry: { maxAttempts: 1 } };
+        const db = open(dbName, { key: keyA }, cached);
+        await db.put({ _id: 'patient-record', note: 'top-secret diagnosis' });
+        await db.get('patient-record');
+        await db.close();
+
+        const entries = fs.readdirSync(CACHE_DIR);
+        const cacheContents = entries.map(name => name + fs.readFileSync(path.join(CACHE_DIR, name), 'utf8')).join('\n');
+        expect(entries.length).toBeGreaterThanOrEqual(3); // state, body list, body
+        expect(cacheContents).not.toContain('top-secret');
+        expect(cacheContents).not.toContain('patient-record');
+
+        // Served from the decrypted cache without network
+        const fetchSpy = jest.spyOn(global, 'fetch').mockRejectedValue(new TypeError('fetch failed'));
+        const offline = open(dbName, { key: keyA }, cached);
+        try {
+            await offline.info();
+            expect((await offline.get('patient-record') as any).note).toBe('top-secret diagnosis');
+        } finally {
+            await offline.close();
+            fetchSpy.mockRestore();
+        }
+    }, 30000);
+
+    test('should report a damaged file as corrupted, not as a wrong key', async () => {
+        const dbName = 'encrypted-damaged-' + Date.now();
+        const db = open(dbName, { key: keyA });
+        await db.put({
+            _id: 'doc',
+            _attachments: { 'a.txt': { content_type: 'text/plain', data: Buffer.from('blob').toString('base64') } }
+        });
+        await db.close();
+
+        const client = new GoogleDriveClient({
+            accessToken: 'mock-token',
+            baseUrl: `http://127.0.0.1:${PORT}/drive/v3/files`,
+            uploadUrl: `http://127.0.0.1:${PORT}/upload/drive/v3/files`
+        });
+        const [folder] = await client.listFiles(`name = '${dbName}' and trashed = false`);
+        const blob = (await client.listFiles(`'${folder.id}' in parents and trashed = false`)).find(f => f.name.startsWith('attachment-'))!;
+        const damaged = new Uint8Array(fs.readFileSync(path.join(STORAGE_DIR, blob.id)));
+        damaged[damaged.length - 1] ^= 0xff;
+        await client.updateFile(blob.id, damaged, undefined, 'application/octet-stream');
+
+        const reader = open(dbName, { key: keyA });
+        try {
+            await reader.info();
+            await expect(reader.getAttachment('doc', 'a.txt')).rejects.toMatchObject({ code: 'corrupted_file', fileId: blob.id });
+        } finally {
+            await reader.close();
+        }
+    }, 30000);
+});
@@ -0,0 +1,105 @@
+import PouchDB from 'pouchdb-core';
+import GoogleDriveAdapter from '../src/adapter';
+import { DriveHandler } from '../src/drive';
+import { TestServer } from '../tests-src/server';
+import { getTestOptions, isProd } from '../tests-src/test-config';
+
+const AdapterConstructor = GoogleDriveAdapter(PouchDB);
+(PouchDB as any).adapter('googledrive', AdapterConstructor);
+
+describe('Consistency Check', () => {
+    let server: TestServer;
+    let PORT: number;
+
+    beforeAll(async () => {
+        if (!isProd) {
+            server = new TestServer(0, '.test-drive-fsck');
+            PORT = await server.start();
+        }
+    });
+
+    afterAll(async () => {
+        if (server) await server.stop();
+    });
+
+    beforeEach(() => {
+        if (server) server.reset();
+    });
+
+    const change = (handler: DriveHandler, id: string) =>
+        handler.appendChange({ seq: handler.getNextSeq(), id, rev: '1-' + id, doc: { _id: id, value: id }, timestamp: Date.now() });
+
+    const types = (report: any) => report.problems.map((p: any) => p.type).sort();
+
+    test('should report a healthy database as ok', async () => {
+        const dbName = 'fsck-ok-' + Date.now();
+        const db = new PouchDB(dbName, { ...getTestOptions(dbName, PORT), folderName: dbName } as any);
+        try {
+            await db.info();
+            await db.bulkDocs([{ _id: 'a' }, { _id: 'b' }]);
+            await db.compact();
+            await db.put({ _id: 'c' });
+            await db.put({ _id: '_local/checkpoint', seq: 3 });
+
+            const report = await (db as any).fsck();
+            expect(report).toMatchObject({ ok: true, problems: [], repaired: false });
+            expect(report.fileCount).toBeGreaterThanOrEqual(5); // meta, index, chunk, log, _local docs
+        } finally {
+            await db.close();
+        }
+    }, 30000);
+
+    test('should report dangling and duplicate log references and repair them', async () => {
+        const dbName = 'fsck-logs-' + Date.now();
+        const handler = new DriveHandler({ ...getTestOptions(dbName, PORT), folderName: dbName } as any, dbName);
+        await handler.load();
+        await change(handler, 'a');
+        await handler.compact();
+        await change(handler, 'b');
+        await change(handler, 'c');
+
+        // A deleted log that meta still lists, and a log listed twice
+        const client = (handler as any).client;
+        const meta = (handler as any).meta;
+        const [logB, logC] = meta.changeLogIds;
+        await client.deleteFile(logB);
+        const metaFile = await (handler as any).findFile('_meta.json');
+        await client.updateFile(metaFile.fileId, JSON.stringify({ ...meta, changeLogIds: [logB, logC, logC] }));
+
+        const report = await handler.check();
+        expect(report.ok).toBe(false);
+        expect(types(report)).toEqual(['duplicate_reference', 'missing_file', 'seq_gap']);
+        expect(report.problems.find(p => p.type === 'seq_gap')!.message).toContain('seq 2');
+
+        const repair = await handler.check({ repair: true });
+        expect(repair.repaired).toBe(true);
+        expect((await handler.check()).ok).toBe(true);
+        expect(await handler.getIndexKeys()).toEqual(['a', 'c']);
+        expect((await handler.get('c')).value).toBe('c');
+        expect(handler.getNextSeq()).toBe(4); // seq 2 is never handed out again
+        handler.stopPolling();
+    }, 30000);
+
+    test('should rebuild a lost _meta.json from the snapshots and logs present', async () => {
+        const dbName = 'fsck-meta-' + Date.now();
+        const options: any = { ...getTestOptions(dbName, PORT), folderName: dbName };
+        const handler = new DriveHandler(options, dbName);
+        await handler.load();
+        await change(handler, 'a');
+        await handler.compact();
+        await change(handler, 'b');
+        handler.stopPolling();
+
+        const metaFile = await (handler as any).findFile('_meta.json');
+        await (handler as any).client.deleteFile(metaFile.fileId);
+
+        const fresh = new DriveHandler(options, dbName);
+        const report = await fresh.check({ repair: true });
+        expect(report.problems[0]).toMatchObject({ type: 'missing_file', name: '_meta.json' });
+        expect(report.repaired).toBe(true);
+        expect((await fresh.getIndexKeys()).sort()).toEqual(['a', 'b']);
+        expect((await fresh.get('a')).value).toBe('a');
+        expect(fresh.getNextSeq()).toBe(3);
+        fresh.stopPolling();
+    }, 30000);
+});
@@ -0,0 +1,99 @@
+import PouchDB from 'pouchdb-core';
+import GoogleDriveAdapter from '../src/adapter';
+import { GoogleDriveClient } from '../src/client';
+import { TestServer } from '../tests-src/server';
+import { getTestOptions, isProd } from '../tests-src/test-config';
+
+const AdapterConstructor = GoogleDriveAdapter(PouchDB);
+(PouchDB as any).adapter('googledrive', AdapterConstructor);
+
+describe('Garbage Collection', () => {
+    let server: TestServer;
+    let PORT: number;
+
+    beforeAll(async () => {
+        if (!isProd) {
+            server = new TestServer(0, '.test-drive-gc');
+            PORT = await server.start();
+        }
+    });
+
+    afterAll(async () => {
+        if (server) await server.stop();
+    });
+
+    beforeEach(() => {
+        if (server) server.reset();
+    });
+
+    const driveClient = () => isProd
+        ? new GoogleDriveClient({ accessToken: getTestOptions('', PORT).accessToken })
+        : new GoogleDriveClient({
+            accessToken: 'mock-token',
+            baseUrl: `http://127.0.0.1:${PORT}/drive/v3/files`,
+            uploadUrl: `http://127.0.0.1:${PORT}/upload/drive/v3/files`
+        });
+
+    const folderOf = async (client: GoogleDriveClient, name: string) =>
+        (await client.listFiles(`name = '${name}' and mimeType = 'application/vnd.google-apps.folder' and trashed = false`))[0].id;
+
+    test('should delete only orphans older than the grace period', async () => {
+        const dbName = 'gc-' + Date.now();
+        const db = new PouchDB(dbName, { ...getTestOptions(dbName, PORT), folderName: dbName } as any);
+        try {
+            await db.info();
+            await db.put({
+                _id: 'doc',
+                _attachments: { 'a.txt': { content_type: 'text/plain', data: Buffer.from('kept').toString('base64') } }
+            });
+            await db.compact();
+            await db.put({ _id: 'later' });
+
+            // What a crash between upload and meta commit leaves behind
+            const client = driveClient();
+            const folderId = await folderOf(client, dbName);
+            const orphans = [
+                'changes-9-orphan.ndjson',
+                'snapshot-data-1-0.json',
+                'attachment-' + 'ab'.repeat(32)
+            ];
+            for (const name of orphans) await client.createFile(name, [folderId], 'application/json', '{}');
+            await new Promise(r => setTimeout(r, 20));
+
+            const dryRun = await (db as any).collectGarbage({ dryRun: true });
+            expect(dryRun).toMatchObject({ deleted: [], skipped: 3 });
+
+            const report = await (db as any).collectGarbage({ gracePeriodMs: 0 });
+            expect(report.deleted.map((f: any) => f.name).sort()).toEqual([...orphans].sort());
+            expect(report.skipped).toBe(0);
+
+            const remaining = (await client.listFiles(`'${folderId}' in parents and trashed = false`)).map(f => f.name);
+            expect(remaining.some(name => orphans.includes(name))).toBe(false);
+            const doc: any = await db.get('doc', { attachments: true });
+            expect(Buffer.from(doc._attachments['a.txt'].data, 'base64').toString()).toBe('kept');
+            expect(await db.get('later')).toBeDefined();
+        } finally {
+            await db.close();
+        }
+    }, 30000);
+
+    test('should collect garbage as part of compaction', async () => {
+        const dbName = 'gc-compact-' + Date.now();
+        const db = new PouchDB(dbName, { ...getTestOptions(dbName, PORT), folderName: dbName, gcGracePeriodMs: 0 } as any);
+        try {
+            await db.info();
+            await db.put({ _id: 'doc' });
+            const client = driveClient();
+            const folderId = await folderOf(client, dbName);
+            await client.createFile('changes-5-crashed.ndjson', [folderId], 'application/x-ndjson', '{}\n');
+            await new Promise(r => setTimeout(r, 20));
+
+            await db.compact();
+            const names = (await client.listFiles(`'${folderId}' in parents and trashed = false`)).map(f => f.name);
+            expect(names).not.toContain('changes-5-crashed.ndjson');
+            expect(await db.get('doc')).toBeDefined();
+        } finally {
+            await db.close();
+        }
+    }, 30000);
+});
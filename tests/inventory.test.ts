@@ -0,0 +1,74 @@
+import PouchDB from 'pouchdb-core';
+import GoogleDriveAdapter from '../src/adapter';
+import { GoogleDriveClient } from '../src/client';
+import { TestServer } from '../tests-src/server';
+import { getTestOptions, isProd } from '../tests-src/test-config';
+
+const AdapterConstructor = GoogleDriveAdapter(PouchDB);
+(PouchDB as any).adapter('googledrive', AdapterConstructor);
+
+describe('Folder inventory', () => {
+    let server: TestServer;
+    let PORT: number;
+
+    beforeAll(async () => {
+        if (!isProd) {
+            server = new TestServer(0, '.test-drive-inventory');
+            PORT = await server.start();
+        }
+    });
+
+    afterAll(async () => {
+        if (server) await server.stop();
+    });
+
+    beforeEach(() => {
+        if (server) server.reset();
+    });
+
+    const driveClient = () => isProd
+        ? new GoogleDriveClient({ accessToken: getTestOptions('', PORT).accessToken })
+        : new GoogleDriveClient({
+            accessToken: 'mock-token',
+            baseUrl: `http://127.0.0.1:${PORT}/drive/v3/files`,
+            uploadUrl: `http://127.0.0.1:${PORT}/upload/drive/v3/files`
+        });
+
+    test('should page through listings and classify every file', async () => {
+        const dbName = 'inventory-' + Date.now();
+        const db: any = new PouchDB(dbName, { ...getTestOptions(dbName, PORT), folderName: dbName, gcGracePeriodMs: 0 } as any);
+        try {
+            // Every listing below spans several pages
+            if (server) server.maxPageSize = 2;
+            await db.info();
+            await db.put({
+                _id: 'doc',
+                _attachments: { 'a.txt': { content_type: 'text/plain', data: Buffer.from('hello').toString('base64') } }
+            });
+            await db.put({ _id: '_local/checkpoint', seq: 1 });
+            await db.compact();
+            await db.put({ _id: 'later' });
+
+            const kinds = (await db.listDatabaseFiles()).map((f: any) => f.kind).sort();
+            expect(kinds).toEqual(['attachment', 'change_log', 'local_docs', 'meta', 'snapshot_data', 'snapshot_index']);
+            const files = await db.listDatabaseFiles();
+            expect(files.map((f: any) => f.name)).toEqual(files.map((f: any) => f.name).sort());
+            expect(files.find((f: any) => f.kind === 'attachment').size).toBe(5);
+            expect(files.every((f: any) => f.size > 0)).toBe(true);
+
+            // Orphans past the first page are still found by garbage collection
+            const client = driveClient();
+            const folderId = (await client.listFiles(`name = '${dbName}' and trashed = false`))[0].id;
+            for (let i = 0; i < 5; i++) await client.createFile(`changes-9${i}-orphan.ndjson`, [folderId], 'application/x-ndjson', '{}\n');
+            await new Promise(r => setTimeout(r, 20));
+            expect((await client.listFiles(`'${folderId}' in parents and trashed = false`, { pageSize: 3 })).length).toBe(files.length + 5);
+
+            const report = await db.collectGarbage();
+            expect(report.deleted).toHaveLength(5);
+            expect((await db.listDatabaseFiles()).length).toBe(files.length);
+            expect(await db.get('later')).toBeDefined();
+        } finally {
+            await db.close();
+        }
+    }, 30000);
+});
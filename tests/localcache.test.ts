@@ -0,0 +1,209 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import PouchDB from 'pouchdb-core';
+import GoogleDriveAdapter from '../src/adapter';
+import { GoogleDriveClient } from '../src/client';
+import { FileSystemStore } from '../src/localcache';
+import { TestServer } from '../tests-src/server';
+import { getTestOptions, isProd } from '../tests-src/test-config';
+
+const AdapterConstructor = GoogleDriveAdapter(PouchDB);
+(PouchDB as any).adapter('googledrive', AdapterConstructor);
+
+const CACHE_DIR = '.test-drive-localcache-store';
+
+const waitFor = async (condition: () => Promise<boolean>, timeoutMs = 5000) => {
+    const start = Date.now();
+    while (!(await condition())) {
+        if (Date.now() - start > timeoutMs) throw new Error('Timed out');
+        await new Promise(r => setTimeout(r, 20));
+    }
+};
+
+describe('Local Cache', () => {
+    let server: TestServer;
+    let PORT: number;
+
+    beforeAll(async () => {
+        if (!isProd) {
+            server = new TestServer(0, '.test-drive-localcache');
+            PORT = await server.start();
+        }
+    });
+
+    afterAll(async () => {
+        if (server) await server.stop();
+        fs.rmSync(CACHE_DIR, { recursive: true, force: true });
+    });
+
+    beforeEach(() => {
+        if (server) server.reset();
+    });
+
+    const open = (dbName: string, extra: any = {}) => new PouchDB(dbName, {
+        ...getTestOptions(dbName, PORT),
+        localCache: new FileSystemStore(CACHE_DIR),
+        retry: { maxAttempts: 1 },
+        ...extra
+    } as any);
+
+    const driveClient = () => isProd
+        ? new GoogleDriveClient({ accessToken: getTestOptions('', PORT).accessToken })
+        : new GoogleDriveClient({
+            accessToken: 'mock-token',
+            baseUrl: `http://127.0.0.1:${PORT}/drive/v3/files`,
+            uploadUrl: `http://127.0.0.1:${PORT}/upload/drive/v3/files`
+        });
+
+    const goOffline = () => jest.spyOn(global, 'fetch').mockRejectedValue(new TypeError('fetch failed'));
+
+    /** Cache file of `name` in the database of `folderName`, whatever account and scope it is kept under */
+    const cacheFile = (folderName: string, name: string) => {
+        const file = fs.readdirSync(CACHE_DIR).find(f => decodeURIComponent(f).endsWith(`/${folderName}/${name}.json`));
+        return file ? path.join(CACHE_DIR, file) : undefined;
+    };
+
+    const ids = async (db: any) => (await db.allDocs()).rows.map((r: any) => r.id);
+
+    test('should open and serve bodies from the cache without network', async () => {
+        const dbName = 'localcache-offline-' + Date.now();
+        const db = open(dbName);
+        try {
+            await db.put({ _id: 'a', v: 1 });
+            await db.put({ _id: 'b', v: 2 });
+        } finally {
+            await db.close();
+        }
+
+        const fetchSpy = goOffline();
+        const offline = open(dbName);
+        try {
+            const res = await offline.allDocs({ include_docs: true });
+            expect(res.rows.map((r: any) => [r.id, r.doc.v])).toEqual([['a', 1], ['b', 2]]);
+            expect((await offline.get('b') as any).v).toBe(2);
+        } finally {
+            await offline.close();
+            fetchSpy.mockRestore();
+        }
+    }, 30000);
+
+    test('should reconcile a cached open with Drive in the background', async () => {
+        const dbName = 'localcache-sync-' + Date.now();
+        const db = open(dbName);
+        try {
+            await db.put({ _id: 'cached', v: 1 });
+        } finally {
+            await db.close();
+        }
+
+        // Another device writes while this one is closed
+        const other = new PouchDB(dbName, getTestOptions(dbName, PORT) as any);
+        try {
+            await other.put({ _id: 'remote', v: 2 });
+        } finally {
+            await other.close();
+        }
+
+        const reopened = open(dbName);
+        try {
+            await waitFor(async () => (await reopened.allDocs()).rows.some((r: any) => r.id === 'remote'));
+            expect((await reopened.get('remote') as any).v).toBe(2);
+
+            // The reconciled state is what the next open starts from
+            await reopened.close();
+            const state = JSON.parse(fs.readFileSync(cacheFile(dbName, 'state')!, 'utf8'));
+            expect(Object.keys(state.index).sort()).toEqual(['cached', 'remote']);
+        } finally {
+            await reopened.close();
+        }
+    }, 30000);
+
+    test('should keep databases with the same folder name in different parents apart', async () => {
+        const dbName = 'localcache-parents-' + Date.now();
+        const parent = (await driveClient().createFile('parent-' + Date.now(), undefined, 'application/vnd.google-apps.folder', '')).id;
+        const inRoot = open(dbName);
+        const inParent = open(dbName, { parents: [parent] });
+        try {
+            await inRoot.put({ _id: 'in-root' });
+            await inParent.put({ _id: 'in-parent' });
+        } finally {
+            await inRoot.close();
+            await inParent.close();
+        }
+
+        // Each one is served its own cache, then its own folder
+        const fetchSpy = goOffline();
+        const offlineRoot = open(dbName);
+        const offlineParent = open(dbName, { parents: [parent] });
+        try {
+            expect(await ids(offlineRoot)).toEqual(['in-root']);
+            expect(await ids(offlineParent)).toEqual(['in-parent']);
+        } finally {
+            await offlineRoot.close();
+            await offlineParent.close();
+            fetchSpy.mockRestore();
+        }
+        const uncached = new PouchDB(dbName, { ...getTestOptions(dbName, PORT), parents: [parent] } as any);
+        try {
+            expect(await ids(uncached)).toEqual(['in-parent']);
+        } finally {
+            await uncached.close();
+        }
+    }, 30000);
+
+    test('should not serve the cache of another account', async () => {
+        const dbName = 'localcache-account-' + Date.now();
+        const db = open(dbName);
+        try {
+            await db.put({ _id: 'mine' });
+        } finally {
+            await db.close();
+        }
+
+        // Offline, a token that was never seen online cannot be told apart from another account
+        const fetchSpy = goOffline();
+        const other = open(dbName, { accessToken: 'other-token' });
+        const same = open(dbName);
+        try {
+            await expect(other.info()).rejects.toBeDefined();
+            expect(await ids(same)).toEqual(['mine']);
+        } finally {
+            await same.close();
+            fetchSpy.mockRestore();
+        }
+
+        // Online, the other account gets a cache of its own
+        const online = open(dbName, { accessToken: 'other-token' });
+        try {
+            await online.put({ _id: 'theirs' });
+            await online.close();
+            const entries = fs.readdirSync(CACHE_DIR).filter(f => decodeURIComponent(f).endsWith(`/${dbName}/state.json`));
+            expect(entries).toHaveLength(2);
+        } finally {
+            await online.close();
+        }
+    }, 30000);
+
+    test('should reload when the cached folder is not the folder of the database', async () => {
+        const dbName = 'localcache-folder-' + Date.now();
+        const otherName = dbName + '-other';
+        for (const [name, id] of [[dbName, 'own'], [otherName, 'foreign']]) {
+            const db = open(name);
+            try {
+                await db.put({ _id: id });
+            } finally {
+                await db.close();
+            }
+        }
+        // A cache entry left pointing at another folder
+        fs.copyFileSync(cacheFile(otherName, 'state')!, cacheFile(dbName, 'state')!);
+
+        const db = open(dbName);
+        try {
+            await waitFor(async () => (await ids(db)).includes('own'));
+            expect(await ids(db)).toEqual(['own']);
+        } finally {
+            await db.close();
+        }
+    }, 30000);
+});
@@ -0,0 +1,114 @@
+import PouchDB from 'pouchdb-core';
+import GoogleDriveAdapter from '../src/adapter';
+import { DriveHandler } from '../src/drive';
+import { TestServer } from '../tests-src/server';
+import { getTestOptions, isProd } from '../tests-src/test-config';
+
+const AdapterConstructor = GoogleDriveAdapter(PouchDB);
+(PouchDB as any).adapter('googledrive', AdapterConstructor);
+
+describe('Mango queries', () => {
+    let server: TestServer;
+    let PORT: number;
+
+    beforeAll(async () => {
+        if (!isProd) {
+            server = new TestServer(0, '.test-drive-mango');
+            PORT = await server.start();
+        }
+    });
+
+    afterAll(async () => {
+        if (server) await server.stop();
+    });
+
+    beforeEach(() => {
+        if (server) server.reset();
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    const open = (dbName: string): any =>
+        new PouchDB(dbName, { ...getTestOptions(dbName, PORT), folderName: dbName } as any);
+
+    const seed = async (db: any) => {
+        await db.info();
+        await db.bulkDocs([
+            { _id: 'a1', type: 'article', views: 10, title: 'First' },
+            { _id: 'a2', type: 'article', views: 50, title: 'Second' },
+            { _id: 'a3', type: 'article', views: 30, title: 'Third' },
+            { _id: 'c1', type: 'comment', views: 99 },
+            { _id: 'n1', title: 'No type' }
+        ]);
+    };
+
+    test('should answer queries from a persisted index, fetching only matching bodies', async () => {
+        const dbName = 'mango-' + Date.now();
+        const writer = open(dbName);
+        let reader: any;
+        try {
+            await seed(writer);
+            expect(await writer.createIndex({ index: { fields: ['type', 'views'] } }))
+                .toMatchObject({ result: 'created', name: expect.stringMatching(/^idx-/) });
+            expect(await writer.createIndex({ index: { fields: ['type', 'views'] } }))
+                .toMatchObject({ result: 'exists' });
+            // Written after the index file: picked up from the change log
+            await writer.put({ _id: 'a4', type: 'article', views: 40, title: 'Fourth' });
+            await writer.remove(await writer.get('a3'));
+
+            reader = open(dbName);
+            const { indexes } = await reader.getIndexes();
+            expect(indexes.map((i: any) => i.name)).toEqual(['_all_docs', expect.stringMatching(/^idx-/)]);
+            expect(indexes[1].def.fields).toEqual([{ type: 'asc' }, { views: 'asc' }]);
+
+            const getMulti = jest.spyOn(DriveHandler.prototype, 'getMulti');
+            const result = await reader.find({
+                selector: { type: 'article', views: { $gte: 20 } },
+                sort: [{ views: 'desc' }],
+                fields: ['_id', 'title']
+            });
+            expect(result.warning).toBeUndefined();
+            expect(result.docs).toEqual([{ _id: 'a2', title: 'Second' }, { _id: 'a4', title: 'Fourth' }]);
+            expect(getMulti.mock.calls[getMulti.mock.calls.length - 1][0].sort()).toEqual(['a2', 'a4']);
+
+            const limited = await reader.find({ selector: { type: 'article', views: { $gt: 0 } }, sort: ['views'], skip: 1, limit: 1 });
+            expect(limited.docs.map((d: any) => d._id)).toEqual(['a4']);
+        } finally {
+            await writer.close();
+            if (reader) await reader.close();
+        }
+    }, 30000);
+
+    test('should rewrite indexes on compaction and fall back to a scan without one', async () => {
+        const dbName = 'mango-compact-' + Date.now();
+        const db = open(dbName);
+        try {
+            await seed(db);
+            await db.createIndex({ index: { fields: ['views'], ddoc: 'by-views', name: 'views' } });
+            await db.put({ _id: 'a5', type: 'article', views: 70 });
+            await db.compact();
+
+            const again = open(dbName);
+            try {
+                const getMulti = jest.spyOn(DriveHandler.prototype, 'getMulti');
+                const result = await again.find({ selector: { views: { $gt: 60 } } });
+                expect(result.docs.map((d: any) => d._id).sort()).toEqual(['a5', 'c1']);
+                // The compacted index file already holds a5, nothing needed re-indexing
+                expect(getMulti.mock.calls.map(c => c[0].length)).toEqual([0, 2]);
+            } finally {
+                await again.close();
+            }
+
+            expect(await db.deleteIndex({ ddoc: 'by-views', name: 'views' })).toEqual({ ok: true });
+            await expect(db.deleteIndex({ ddoc: 'by-views', name: 'views' })).rejects.toMatchObject({ status: 404 });
+            const scanned = await db.find({ selector: { title: { $regex: '^F' } } });
+            expect(scanned.docs.map((d: any) => d._id)).toEqual(['a1']);
+            expect(scanned.warning).toMatch(/No matching index/);
+            expect((await db.fsck()).problems).toEqual([]);
+        } finally {
+            await db.close();
+        }
+    }, 30000);
+});
@@ -0,0 +1,113 @@
+import * as fs from 'fs';
+import PouchDB from 'pouchdb-core';
+import GoogleDriveAdapter from '../src/adapter';
+import { FileSystemStore } from '../src/localcache';
+import { TestServer } from '../tests-src/server';
+import { getTestOptions, isProd } from '../tests-src/test-config';
+
+const AdapterConstructor = GoogleDriveAdapter(PouchDB);
+(PouchDB as any).adapter('googledrive', AdapterConstructor);
+
+const CACHE_DIR = '.test-drive-outbox-store';
+
+describe('Offline Outbox', () => {
+    let server: TestServer;
+    let PORT: number;
+
+    beforeAll(async () => {
+        if (!isProd) {
+            server = new TestServer(0, '.test-drive-outbox');
+            PORT = await server.start();
+        }
+    });
+
+    afterAll(async () => {
+        if (server) await server.stop();
+        fs.rmSync(CACHE_DIR, { recursive: true, force: true });
+    });
+
+    beforeEach(() => {
+        if (server) server.reset();
+    });
+
+    const open = (dbName: string) => new PouchDB(dbName, {
+        ...getTestOptions(dbName, PORT),
+        offlineWrites: true,
+        localCache: new FileSystemStore(CACHE_DIR),
+        retry: { maxAttempts: 1 }
+    } as any);
+
+    const goOffline = () => jest.spyOn(global, 'fetch').mockRejectedValue(new TypeError('fetch failed'));
+
+    test('should keep offline writes visible and durable until they are flushed', async () => {
+        const dbName = 'outbox-' + Date.now();
+        const db = open(dbName);
+        let fetchSpy: jest.SpyInstance | null = null;
+        try {
+            await db.put({ _id: 'online', v: 1 });
+
+            fetchSpy = goOffline();
+            const res = await db.put({ _id: 'offline', v: 2 });
+            expect(res.ok).toBe(true);
+            expect((await db.get('offline') as any).v).toBe(2);
+            expect((await db.allDocs()).rows.map(r => r.id)).toEqual(['offline', 'online']);
+            const changes = await db.changes({ since: 0 });
+            expect(changes.results.map(c => c.id)).toContain('offline');
+            expect((db as any).getPendingChangesCount()).toBe(1);
+        } finally {
+            await db.close();
+        }
+
+        // Restart while still offline: the outbox comes back from the local cache
+        const reopened = open(dbName);
+        try {
+            await reopened.info();
+            expect((await reopened.get('offline') as any).v).toBe(2);
+            fetchSpy!.mockRestore();
+
+            await (reopened as any).flushPendingChanges();
+            expect((reopened as any).getPendingChangesCount()).toBe(0);
+        } finally {
+            await reopened.close();
+        }
+
+        // Another device sees the flushed write
+        const other = new PouchDB(dbName, getTestOptions(dbName, PORT) as any);
+        try {
+            const all = await other.allDocs({ include_docs: true });
+            expect(all.rows.map((r: any) => [r.id, r.doc.v])).toEqual([['offline', 2], ['online', 1]]);
+        } finally {
+            await other.close();
+        }
+    }, 30000);
+
+    test('should turn edits that lost the race into conflicts', async () => {
+        const dbName = 'outbox-conflict-' + Date.now();
+        const db = open(dbName);
+        const first = await db.put({ _id: 'doc', owner: 'none' });
+        const other = new PouchDB(dbName, getTestOptions(dbName, PORT) as any);
+        try {
+            await other.info();
+
+            const fetchSpy = goOffline();
+            const mine = await db.put({ _id: 'doc', _rev: first.rev, owner: 'offline device' });
+            fetchSpy.mockRestore();
+
+            const theirs = await other.put({ _id: 'doc', _rev: first.rev, owner: 'online device' });
+            await (db as any).flushPendingChanges();
+
+            await other.close();
+            const fresh = new PouchDB(dbName, getTestOptions(dbName, PORT) as any);
+            try {
+                await fresh.info();
+                const doc: any = await fresh.get('doc', { conflicts: true });
+                expect([doc._rev, ...doc._conflicts].sort()).toEqual([mine.rev, theirs.rev].sort());
+            } finally {
+                await fresh.close();
+            }
+        } finally {
+            await db.close();
+            await other.close();
+        }
+    }, 30000);
+});
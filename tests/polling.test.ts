@@ -0,0 +1,110 @@
+import PouchDB from 'pouchdb-core';
+import GoogleDriveAdapter from '../src/adapter';
+import { TestServer } from '../tests-src/server';
+import { getTestOptions, isProd } from '../tests-src/test-config';
+
+const AdapterConstructor = GoogleDriveAdapter(PouchDB);
+(PouchDB as any).adapter('googledrive', AdapterConstructor);
+
+const waitFor = async (condition: () => boolean, timeoutMs = 5000) => {
+    const start = Date.now();
+    while (!condition()) {
+        if (Date.now() - start > timeoutMs) throw new Error('Timed out');
+        await new Promise(r => setTimeout(r, 20));
+    }
+};
+
+describe('Adaptive Polling', () => {
+    let server: TestServer;
+    let PORT: number;
+
+    beforeAll(async () => {
+        if (!isProd) {
+            server = new TestServer(0, '.test-drive-polling');
+            PORT = await server.start();
+        }
+    });
+
+    afterAll(async () => {
+        if (server) await server.stop();
+    });
+
+    beforeEach(() => {
+        if (server) server.reset();
+    });
+
+    const open = (dbName: string) => new PouchDB(dbName, {
+        ...getTestOptions(dbName, PORT),
+        pollingIntervalMs: 50,
+        maxPollingIntervalMs: 400
+    } as any) as any;
+
+    test('should back off while idle and tighten after writes', async () => {
+        const dbName = 'polling-' + Date.now();
+        const db = open(dbName);
+
+        try {
+            await db.info();
+            expect(db.getPollingStatus()).toMatchObject({ active: true, paused: false });
+
+            await waitFor(() => db.getPollingStatus().intervalMs === 400);
+            expect(db.getPollingStatus().lastCheckAt).toBeGreaterThan(Date.now() - 1000);
+
+            await db.put({ _id: 'local-write' });
+            expect(db.getPollingStatus().intervalMs).toBe(50);
+        } finally {
+            await db.close();
+        }
+        expect(db.getPollingStatus()).toMatchObject({ active: false, intervalMs: null });
+    }, 30000);
+
+    test('should pick up writes from another device', async () => {
+        const dbName = 'polling-remote-' + Date.now();
+        const reader = open(dbName);
+        await reader.info();
+        const writer = new PouchDB(dbName, getTestOptions(dbName, PORT) as any);
+
+        try {
+            await writer.info();
+            setTimeout(() => writer.put({ _id: 'from-writer', v: 1 }), 100);
+
+            const seen = reader.changes({ live: true, since: 'now', include_docs: true });
+            const change: any = await new Promise(resolve => seen.on('change', resolve));
+            seen.cancel();
+
+            expect(change.id).toBe('from-writer');
+            expect(change.doc.v).toBe(1);
+        } finally {
+            await reader.close();
+            await writer.close();
+        }
+    }, 30000);
+
+    test('should pause while offline and resume on the online event', async () => {
+        const listeners: Record<string, () => void> = {};
+        const navigatorDescriptor = Object.getOwnPropertyDescriptor(global, 'navigator');
+        Object.defineProperty(global, 'navigator', { value: { onLine: false }, configurable: true, writable: true });
+        (global as any).addEventListener = (type: string, cb: () => void) => { listeners[type] = cb; };
+        (global as any).removeEventListener = (type: string) => { delete listeners[type]; };
+
+        const dbName = 'polling-offline-' + Date.now();
+        const db = open(dbName);
+        try {
+            await db.info();
+            await waitFor(() => db.getPollingStatus().paused);
+            const lastCheck = db.getPollingStatus().lastCheckAt;
+            expect(listeners.online).toBeDefined();
+
+            (global as any).navigator.onLine = true;
+            listeners.online();
+            expect(db.getPollingStatus()).toMatchObject({ paused: false, intervalMs: 50 });
+            await waitFor(() => db.getPollingStatus().lastCheckAt !== lastCheck);
+        } finally {
+            await db.close();
+            if (navigatorDescriptor) Object.defineProperty(global, 'navigator', navigatorDescriptor);
+            else delete (global as any).navigator;
+            delete (global as any).addEventListener;
+            delete (global as any).removeEventListener;
+        }
+    }, 30000);
+});
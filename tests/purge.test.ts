@@ -0,0 +1,101 @@
+import PouchDB from 'pouchdb-core';
+import GoogleDriveAdapter from '../src/adapter';
+import { TestServer } from '../tests-src/server';
+import { getTestOptions, isProd } from '../tests-src/test-config';
+
+const AdapterConstructor = GoogleDriveAdapter(PouchDB);
+(PouchDB as any).adapter('googledrive', AdapterConstructor);
+
+describe('Purge and tombstone retention', () => {
+    let server: TestServer;
+    let PORT: number;
+
+    beforeAll(async () => {
+        if (!isProd) {
+            server = new TestServer(0, '.test-drive-purge');
+            PORT = await server.start();
+        }
+    });
+
+    afterAll(async () => {
+        if (server) await server.stop();
+    });
+
+    beforeEach(() => {
+        if (server) server.reset();
+    });
+
+    const changedIds = async (db: any) => (await db.changes()).results.map((c: any) => c.id).sort();
+
+    test('should purge revisions on every client and through compaction', async () => {
+        const dbName = 'purge-' + Date.now();
+        const opts = { ...getTestOptions(dbName, PORT), folderName: dbName } as any;
+        const db = new PouchDB(dbName, opts);
+        let reader: any;
+        try {
+            await db.info();
+            const { rev } = await db.put({ _id: 'a', v: 1 });
+            await db.bulkDocs([{ _id: 'a', _rev: '1-0', v: 0 }], { new_edits: false } as any);
+            await db.put({ _id: 'b', v: 2 });
+
+            reader = new PouchDB(dbName, opts);
+            await reader.info();
+            expect((await reader.get('a', { conflicts: true }))._conflicts).toEqual(['1-0']);
+
+            await expect((db as any).purge('missing', '1-x')).rejects.toMatchObject({ status: 404 });
+            await expect((db as any).purge('a', '9-nope')).rejects.toMatchObject({ status: 400 });
+
+            // Purging the winner brings the conflict back as the winner
+            expect(await (db as any).purge('a', rev)).toEqual({ ok: true, deletedRevs: [rev] });
+            const a = await db.get('a', { conflicts: true });
+            expect(a).toMatchObject({ _rev: '1-0', v: 0 });
+            expect(a._conflicts).toBeUndefined();
+
+            await (db as any).purge('b', (await db.get('b'))._rev);
+            await expect(db.get('b')).rejects.toMatchObject({ status: 404 });
+            expect(await changedIds(db)).toEqual(['a']);
+
+            // The other client replays the purges from the log
+            await reader.close();
+            reader = new PouchDB(dbName, opts);
+            await reader.info();
+            expect((await reader.get('a'))._rev).toBe('1-0');
+            expect(await changedIds(reader)).toEqual(['a']);
+
+            await db.compact();
+            await reader.close();
+            reader = new PouchDB(dbName, opts);
+            await reader.info();
+            expect(await changedIds(reader)).toEqual(['a']);
+            expect((await reader.allDocs()).total_rows).toBe(1);
+        } finally {
+            if (reader) await reader.close();
+            await db.close();
+        }
+    });
+
+    test('should drop tombstones older than the retention window on compaction', async () => {
+        const dbName = 'tombstones-' + Date.now();
+        const opts = { ...getTestOptions(dbName, PORT), folderName: dbName } as any;
+        const db = new PouchDB(dbName, { ...opts, tombstoneRetentionMs: 2000 });
+        try {
+            await db.info();
+            await db.put({ _id: 'live' });
+            const old = await db.put({ _id: 'old' });
+            await db.remove('old', old.rev);
+            await new Promise(r => setTimeout(r, 2500));
+            const recent = await db.put({ _id: 'recent' });
+            await db.remove('recent', recent.rev);
+            expect(await changedIds(db)).toEqual(['live', 'old', 'recent']);
+
+            await db.compact();
+            expect(await changedIds(db)).toEqual(['live', 'recent']);
+            const reader = new PouchDB(dbName, opts);
+            await reader.info();
+            expect(await changedIds(reader)).toEqual(['live', 'recent']);
+            await reader.close();
+        } finally {
+            await db.close();
+        }
+    });
+});
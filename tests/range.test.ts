@@ -0,0 +1,100 @@
+import PouchDB from 'pouchdb-core';
+import GoogleDriveAdapter from '../src/adapter';
+import { packNdjson, packSnapshotChunk, decodeUtf8 } from '../src/packing';
+import { TestServer } from '../tests-src/server';
+import { getTestOptions, isProd } from '../tests-src/test-config';
+
+const AdapterConstructor = GoogleDriveAdapter(PouchDB);
+(PouchDB as any).adapter('googledrive', AdapterConstructor);
+
+const mediaRequests = (spy: jest.SpyInstance) => spy.mock.calls
+    .filter(([url, init]) => String(url).includes('alt=media') && (init as RequestInit).method === 'GET')
+    .map(([, init]) => new Headers((init as RequestInit).headers).get('Range'));
+
+describe('Byte-range reads', () => {
+    let server: TestServer;
+    let PORT: number;
+
+    beforeAll(async () => {
+        if (!isProd) {
+            server = new TestServer(0, '.test-drive-range');
+            PORT = await server.start();
+        }
+    });
+
+    afterAll(async () => {
+        if (server) await server.stop();
+    });
+
+    beforeEach(() => {
+        if (server) server.reset();
+    });
+
+    test('should record the byte range of every packed body', () => {
+        const data = {
+            docs: { a: { _id: 'a', text: 'héllo ✓' }, b: { _id: 'b', n: 1 } },
+            conflicts: { a: { '1-x': { _id: 'a', text: 'ünicode' } } }
+        };
+        const packed = packSnapshotChunk(data);
+        const bytes = new TextEncoder().encode(packed.content);
+        const slice = (r: { offset: number, length: number }) => JSON.parse(decodeUtf8(bytes.subarray(r.offset, r.offset + r.length)));
+
+        expect(packed.content).toBe(JSON.stringify(data));
+        expect(slice(packed.docs.a)).toEqual(data.docs.a);
+        expect(slice(packed.docs.b)).toEqual(data.docs.b);
+        expect(slice(packed.conflicts.a['1-x'])).toEqual(data.conflicts.a['1-x']);
+
+        const changes = [{ seq: 1, id: 'é', rev: '1-a', timestamp: 0 }, { seq: 2, id: 'b', rev: '1-b', timestamp: 0 }];
+        const log = packNdjson(changes);
+        const logBytes = new TextEncoder().encode(log.content);
+        expect(JSON.parse(decodeUtf8(logBytes.subarray(log.ranges[1].offset, log.ranges[1].offset + log.ranges[1].length)))).toEqual(changes[1]);
+    });
+
+    test('should fetch only the slice holding a document', async () => {
+        const dbName = 'range-' + Date.now();
+        const options = getTestOptions(dbName, PORT);
+        const filler = 'f'.repeat(20000);
+
+        const db = new PouchDB(dbName, options as any);
+        try {
+            const docs = Array.from({ length: 20 }, (_, i) => ({ _id: `doc${String(i).padStart(2, '0')}`, filler }));
+            await db.bulkDocs(docs);
+            await db.put({ _id: 'logged', v: 'from the log' });
+            await db.compact();
+            await db.put({ _id: 'after', v: 'in a change log' });
+        } finally {
+            await db.close();
+        }
+
+        const reopened = new PouchDB(dbName, options as any);
+        const fetchSpy = jest.spyOn(global, 'fetch');
+        try {
+            await reopened.info();
+            fetchSpy.mockClear();
+
+            const doc: any = await reopened.get('doc07');
+            expect(doc.filler).toBe(filler);
+            let ranges = mediaRequests(fetchSpy);
+            expect(ranges).toHaveLength(1);
+            expect(ranges[0]).toMatch(/^bytes=\d+-\d+$/);
+            const [from, to] = ranges[0]!.slice(6).split('-').map(Number);
+            expect(to - from).toBeLessThan(filler.length + 200);
+
+            // Neighbouring docs come in one spanning request
+            fetchSpy.mockClear();
+            const res = await reopened.allDocs({ keys: ['doc10', 'doc11', 'logged'], include_docs: true });
+            expect(res.rows.map((r: any) => r.doc._id)).toEqual(['doc10', 'doc11', 'logged']);
+            ranges = mediaRequests(fetchSpy);
+            expect(ranges).toHaveLength(1);
+            expect(ranges[0]).not.toBeNull();
+
+            // The latest log was downloaded whole while loading, so it is served from cache
+            fetchSpy.mockClear();
+            expect((await reopened.get('after') as any).v).toBe('in a change log');
+            expect(mediaRequests(fetchSpy)).toHaveLength(0);
+        } finally {
+            fetchSpy.mockRestore();
+            await reopened.close();
+        }
+    }, 60000);
+});
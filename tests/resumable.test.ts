@@ -0,0 +1,85 @@
+import PouchDB from 'pouchdb-core';
+import GoogleDriveAdapter from '../src/adapter';
+import { GoogleDriveClient } from '../src/client';
+import { TestServer } from '../tests-src/server';
+import { getTestOptions, isProd, accessToken } from '../tests-src/test-config';
+
+const AdapterConstructor = GoogleDriveAdapter(PouchDB);
+(PouchDB as any).adapter('googledrive', AdapterConstructor);
+
+const CHUNK = 256 * 1024;
+
+describe('Resumable Uploads', () => {
+    let server: TestServer;
+    let PORT: number;
+    let client: GoogleDriveClient;
+
+    beforeAll(async () => {
+        const uploadOptions = { resumableThreshold: CHUNK, uploadChunkSize: CHUNK, retry: { baseDelayMs: 10 } };
+        if (!isProd) {
+            server = new TestServer(0, '.test-drive-resumable');
+            PORT = await server.start();
+            client = new GoogleDriveClient({
+                accessToken: 'mock-token',
+                baseUrl: `http://127.0.0.1:${PORT}/drive/v3/files`,
+                uploadUrl: `http://127.0.0.1:${PORT}/upload/drive/v3/files`,
+                ...uploadOptions
+            });
+        } else {
+            client = new GoogleDriveClient({ accessToken, ...uploadOptions });
+        }
+    });
+
+    afterAll(async () => {
+        if (server) await server.stop();
+    });
+
+    beforeEach(() => {
+        if (server) server.reset();
+    });
+
+    test('should resume from the last acknowledged byte after a dropped chunk', async () => {
+        const content = 'x'.repeat(CHUNK * 2) + 'tail';
+        const putSpy = jest.spyOn(global, 'fetch');
+
+        try {
+            if (server) server.interruptUploads = 1;
+            const res = await client.createFile('big.txt', undefined, 'text/plain', content);
+
+            expect(await client.getFile(res.id)).toBe(content);
+            // 3 chunks + 1 status query; the dropped chunk was stored so it is not sent again
+            const puts = putSpy.mock.calls.filter(([, init]) => (init as RequestInit).method === 'PUT');
+            if (server) expect(puts).toHaveLength(4);
+        } finally {
+            putSpy.mockRestore();
+        }
+    }, 60000);
+
+    test('should write large change logs and snapshots through resumable sessions', async () => {
+        const dbName = 'resumable-' + Date.now();
+        const options = {
+            ...getTestOptions(dbName, PORT),
+            resumableThreshold: CHUNK,
+            uploadChunkSize: CHUNK
+        };
+        const big = 'y'.repeat(CHUNK + 1000);
+
+        const db = new PouchDB(dbName, options as any);
+        try {
+            await db.put({ _id: 'big', payload: big });
+            await db.put({ _id: 'small', payload: 'z' });
+            await db.compact();
+        } finally {
+            await db.close();
+        }
+
+        const reopened = new PouchDB(dbName, options as any);
+        try {
+            const res = await reopened.allDocs({ include_docs: true });
+            expect(res.rows.map(r => r.id)).toEqual(['big', 'small']);
+            expect((res.rows[0].doc as any).payload).toBe(big);
+        } finally {
+            await reopened.close();
+        }
+    }, 60000);
+});
@@ -0,0 +1,158 @@
+import PouchDB from 'pouchdb-core';
+import GoogleDriveAdapter from '../src/adapter';
+import { GoogleDriveClient } from '../src/client';
+import { TestServer } from '../tests-src/server';
+import { getTestOptions, isProd } from '../tests-src/test-config';
+
+const AdapterConstructor = GoogleDriveAdapter(PouchDB);
+(PouchDB as any).adapter('googledrive', AdapterConstructor);
+
+const json = (status: number, body: any, headers: Record<string, string> = {}) =>
+    new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+
+const driveError = (status: number, reason: string) =>
+    json(status, { error: { message: reason, errors: [{ reason, message: reason }] } });
+
+describe('GoogleDriveClient retry policy', () => {
+    let fetchMock: jest.SpyInstance;
+
+    beforeEach(() => {
+        fetchMock = jest.spyOn(global, 'fetch');
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    const client = (retry: any = {}) => new GoogleDriveClient({
+        accessToken: 'mock-token',
+        retry: { baseDelayMs: 1, ...retry }
+    });
+
+    it('should retry 5xx, 429 and network errors until the request succeeds', async () => {
+        fetchMock
+            .mockResolvedValueOnce(driveError(503, 'backendError'))
+            .mockResolvedValueOnce(driveError(429, 'rateLimitExceeded'))
+            .mockRejectedValueOnce(new TypeError('fetch failed'))
+            .mockResolvedValueOnce(json(200, { files: [{ id: 'a', name: 'a' }] }));
+
+        const files = await client().listFiles("name = 'a'");
+
+        expect(files).toEqual([{ id: 'a', name: 'a' }]);
+        expect(fetchMock).toHaveBeenCalledTimes(4);
+    });
+
+    it('should only retry 403s with a retryable reason', async () => {
+        fetchMock
+            .mockResolvedValueOnce(driveError(403, 'userRateLimitExceeded'))
+            .mockResolvedValueOnce(driveError(403, 'insufficientFilePermissions'));
+
+        await expect(client().deleteFile('a')).rejects.toMatchObject({
+            status: 403,
+            code: 'insufficientFilePermissions',
+            attempts: 2
+        });
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should give up after maxAttempts', async () => {
+        fetchMock.mockImplementation(async () => driveError(500, 'internalError'));
+
+        await expect(client({ maxAttempts: 3 }).deleteFile('a')).rejects.toMatchObject({ status: 500, attempts: 3 });
+        expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it('should wait for Retry-After', async () => {
+        fetchMock
+            .mockResolvedValueOnce(json(429, { error: { message: 'slow down' } }, { 'Retry-After': '1' }))
+            .mockResolvedValueOnce(new Response(null, { status: 204 }));
+
+        const start = Date.now();
+        await client().deleteFile('a');
+
+        expect(Date.now() - start).toBeGreaterThanOrEqual(950);
+    });
+
+    it('should not create a duplicate when a retried upload already went through', async () => {
+        const uploads: string[] = [];
+        fetchMock.mockImplementation(async (url: string, init: RequestInit) => {
+            if (url.includes('/generateIds')) return json(200, { ids: ['reserved-1', 'reserved-2'] });
+            if (init.method === 'POST') {
+                uploads.push(url);
+                // First attempt reaches Drive but the response is lost
+                if (uploads.length === 1) throw new TypeError('socket hang up');
+                return driveError(409, 'fileIdInUse');
+            }
+            return json(200, { id: 'reserved-1', name: 'changes.ndjson', modifiedTime: '2024-01-01T00:00:00.000Z' }, { ETag: '"e1"' });
+        });
+
+        const res = await client().createFile('changes.ndjson', ['folder'], 'application/x-ndjson', '{}');
+
+        expect(res).toEqual({ id: 'reserved-1', etag: 'e1', modifiedTime: '2024-01-01T00:00:00.000Z' });
+        expect(uploads).toHaveLength(2);
+    });
+});
+
+describe('Meta commits after a lost response', () => {
+    let server: TestServer;
+    let PORT: number;
+
+    beforeAll(async () => {
+        if (!isProd) {
+            server = new TestServer(0, '.test-drive-retry');
+            PORT = await server.start();
+        }
+    });
+
+    afterAll(async () => {
+        if (server) await server.stop();
+    });
+
+    test('should keep a change log whose commit went through before the retry got a 412', async () => {
+        if (isProd) return;
+        const dbName = 'retry-' + Date.now();
+        const opts = { ...getTestOptions(dbName, PORT), folderName: dbName, retry: { baseDelayMs: 1 } } as any;
+        const db = new PouchDB(dbName, opts);
+        let reader: any;
+        try {
+            await db.info();
+            const realFetch = global.fetch;
+            let lost = 0;
+            jest.spyOn(global, 'fetch').mockImplementation(async (url: any, init?: RequestInit) => {
+                const res = await realFetch(url, init);
+                const conditional = new Headers(init?.headers).has('If-Match');
+                // The conditional meta PATCH reaches Drive once, but its response never arrives
+                if (init?.method === 'PATCH' && conditional && lost++ === 0) throw new TypeError('socket hang up');
+                return res;
+            });
+
+            expect((await db.put({ _id: 'doc', v: 1 })).ok).toBe(true);
+            await new Promise(r => setTimeout(r, 100));
+            jest.restoreAllMocks();
+
+            // Meta lists the one log, and that log is still there
+            const client = new GoogleDriveClient({
+                accessToken: 'mock-token',
+                baseUrl: `http://127.0.0.1:${PORT}/drive/v3/files`,
+                uploadUrl: `http://127.0.0.1:${PORT}/upload/drive/v3/files`
+            });
+            const [folder] = await client.listFiles(`name = '${dbName}' and trashed = false`);
+            const files = await client.listFiles(`'${folder.id}' in parents and trashed = false`);
+            const meta = await client.getFile(files.find(f => f.name === '_meta.json')!.id);
+            const logs = files.filter(f => f.name.startsWith('changes-')).map(f => f.id);
+            expect(meta.changeLogIds).toEqual(logs);
+            expect(logs).toHaveLength(1);
+
+            reader = new PouchDB(dbName, opts);
+            await reader.info();
+            expect((await reader.get('doc')).v).toBe(1);
+            await db.put({ _id: 'next', v: 2 });
+            expect((await db.get<any>('doc')).v).toBe(1);
+        } finally {
+            jest.restoreAllMocks();
+            if (reader) await reader.close();
+            await db.close();
+        }
+    }, 30000);
+});
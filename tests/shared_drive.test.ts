@@ -0,0 +1,108 @@
+import * as fs from 'fs';
+import PouchDB from 'pouchdb-core';
+import GoogleDriveAdapter from '../src/adapter';
+import { GoogleDriveClient } from '../src/client';
+import { FileSystemStore } from '../src/localcache';
+import { TestServer } from '../tests-src/server';
+import { getTestOptions, isProd } from '../tests-src/test-config';
+
+const AdapterConstructor = GoogleDriveAdapter(PouchDB);
+(PouchDB as any).adapter('googledrive', AdapterConstructor);
+
+const CACHE_DIR = '.test-drive-shared-cache';
+
+describe('Shared Drives', () => {
+    let server: TestServer;
+    let PORT: number;
+
+    beforeAll(async () => {
+        if (!isProd) {
+            server = new TestServer(0, '.test-drive-shared');
+            PORT = await server.start();
+        }
+    });
+
+    afterAll(async () => {
+        if (server) await server.stop();
+        fs.rmSync(CACHE_DIR, { recursive: true, force: true });
+    });
+
+    beforeEach(() => {
+        if (server) server.reset();
+    });
+
+    const driveClient = (driveId?: string) => new GoogleDriveClient({
+        accessToken: 'mock-token',
+        baseUrl: `http://127.0.0.1:${PORT}/drive/v3/files`,
+        uploadUrl: `http://127.0.0.1:${PORT}/upload/drive/v3/files`,
+        driveId
+    });
+
+    test('should keep the database in a Shared Drive and trash instead of delete', async () => {
+        // Shared Drives need to be set up by an admin in real Drive
+        if (isProd) return;
+        const driveId = server.addSharedDrive();
+        const dbName = 'shared-' + Date.now();
+        const opts = { ...getTestOptions(dbName, PORT), folderName: dbName, driveId } as any;
+        const db = new PouchDB(dbName, opts);
+        let other: any;
+        try {
+            await db.info();
+            await db.put({ _id: 'a', n: 1 });
+            await db.put({ _id: 'b', n: 2 });
+
+            const client = driveClient(driveId);
+            const [folder] = await client.listFiles(`name = '${dbName}' and trashed = false`);
+            expect(folder.parents).toEqual([driveId]);
+            // Invisible outside the Shared Drive
+            expect(await driveClient().listFiles(`name = '${dbName}' and trashed = false`)).toEqual([]);
+
+            // Logs folded into the snapshot are trashed: this role may not delete them
+            await db.compact();
+            const names = (await client.listFiles(`'${folder.id}' in parents and trashed = false`)).map(f => f.name);
+            expect(names.filter(name => name.startsWith('changes-'))).toEqual([]);
+
+            other = new PouchDB(dbName, opts);
+            await other.info();
+            expect((await other.get('b')).n).toBe(2);
+
+            await db.destroy({ deleteFolder: true } as any);
+            expect(await client.listFiles(`name = '${dbName}' and trashed = false`)).toEqual([]);
+        } finally {
+            if (other) await other.close();
+        }
+    });
+
+    test('should keep the local caches of My Drive and Shared Drive databases apart', async () => {
+        if (isProd) return;
+        const driveId = server.addSharedDrive();
+        const dbName = 'shared-cache-' + Date.now();
+        const open = (extra: any = {}) => new PouchDB(dbName, {
+            ...getTestOptions(dbName, PORT),
+            localCache: new FileSystemStore(CACHE_DIR),
+            retry: { maxAttempts: 1 },
+            ...extra
+        } as any);
+        const mine = open();
+        const shared = open({ driveId });
+        try {
+            await mine.put({ _id: 'mine' });
+            await shared.put({ _id: 'shared' });
+        } finally {
+            await mine.close();
+            await shared.close();
+        }
+
+        const fetchSpy = jest.spyOn(global, 'fetch').mockRejectedValue(new TypeError('fetch failed'));
+        const offlineMine = open();
+        const offlineShared = open({ driveId });
+        try {
+            expect((await offlineMine.allDocs()).rows.map(r => r.id)).toEqual(['mine']);
+            expect((await offlineShared.allDocs()).rows.map(r => r.id)).toEqual(['shared']);
+        } finally {
+            await offlineMine.close();
+            await offlineShared.close();
+            fetchSpy.mockRestore();
+        }
+    });
+});
@@ -0,0 +1,132 @@
+import PouchDB from 'pouchdb-core';
+import GoogleDriveAdapter from '../src/adapter';
+import { DriveHandler } from '../src/drive';
+import { GoogleDriveClient } from '../src/client';
+import { TestServer } from '../tests-src/server';
+import { getTestOptions, isProd } from '../tests-src/test-config';
+
+const AdapterConstructor = GoogleDriveAdapter(PouchDB);
+(PouchDB as any).adapter('googledrive', AdapterConstructor);
+
+describe('Map/reduce views', () => {
+    let server: TestServer;
+    let PORT: number;
+
+    beforeAll(async () => {
+        if (!isProd) {
+            server = new TestServer(0, '.test-drive-views');
+            PORT = await server.start();
+        }
+    });
+
+    afterAll(async () => {
+        if (server) await server.stop();
+    });
+
+    beforeEach(() => {
+        if (server) server.reset();
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    const open = (dbName: string): any =>
+        new PouchDB(dbName, { ...getTestOptions(dbName, PORT), folderName: dbName } as any);
+
+    const designDoc = {
+        _id: '_design/stats',
+        views: {
+            by_type: { map: 'function (doc) { if (doc.type) emit(doc.type, doc.views); }', reduce: '_sum' },
+            count: { map: 'function (doc) { emit([doc.type || null, doc._id]); }', reduce: '_count' },
+            views: { map: 'function (doc) { if (doc.views) emit(doc._id, doc.views); }', reduce: '_stats' }
+        }
+    };
+
+    test('should store view rows on Drive and answer queries from them', async () => {
+        const dbName = 'views-' + Date.now();
+        const writer = open(dbName);
+        let reader: any;
+        try {
+            await writer.info();
+            await writer.bulkDocs([
+                designDoc,
+                { _id: 'a1', type: 'article', views: 10 },
+                { _id: 'a2', type: 'article', views: 30 },
+                { _id: 'c1', type: 'comment', views: 5 },
+                { _id: 'n1' }
+            ]);
+            expect(await writer.query('stats/by_type')).toEqual({ rows: [{ key: null, value: 45 }] });
+            // Written after the view file: mapped again when queried
+            await writer.put({ _id: 'c2', type: 'comment', views: 7 });
+
+            reader = open(dbName);
+            await reader.info();
+            const getMulti = jest.spyOn(DriveHandler.prototype, 'getMulti');
+            expect(await reader.query('stats/by_type', { group: true })).toEqual({
+                rows: [{ key: 'article', value: 40 }, { key: 'comment', value: 12 }]
+            });
+            // Only the design doc and the doc changed since the file was written
+            expect(getMulti.mock.calls.map(c => c[0])).toEqual([['_design/stats'], ['c2']]);
+
+            const map = await reader.query('stats/by_type', { reduce: false, startkey: 'b', descending: true, include_docs: true });
+            expect(map.total_rows).toBe(4);
+            expect(map.rows.map((r: any) => [r.key, r.id, r.doc._id])).toEqual([['article', 'a2', 'a2'], ['article', 'a1', 'a1']]);
+            expect((await reader.query('stats/by_type', { reduce: false, key: 'comment' })).rows.map((r: any) => r.value)).toEqual([5, 7]);
+            expect(await reader.query('stats/count', { group_level: 1 })).toEqual({
+                rows: [{ key: [null], value: 1 }, { key: ['article'], value: 2 }, { key: ['comment'], value: 2 }]
+            });
+            expect((await reader.query('stats/views')).rows[0].value).toEqual({ sum: 52, count: 4, min: 5, max: 30, sumsqr: 1074 });
+            await expect(reader.query('stats/missing')).rejects.toMatchObject({ status: 404 });
+        } finally {
+            await writer.close();
+            if (reader) await reader.close();
+        }
+    }, 30000);
+
+    test('should rebuild changed views, rewrite them on compaction and clean up stale ones', async () => {
+        const dbName = 'views-compact-' + Date.now();
+        const db = open(dbName);
+        try {
+            await db.info();
+            await db.bulkDocs([designDoc, { _id: 'a1', type: 'article', views: 10 }]);
+            expect((await db.query('stats/by_type')).rows[0].value).toBe(10);
+
+            const ddoc = await db.get('_design/stats');
+            ddoc.views.by_type.reduce = '_count';
+            await db.put(ddoc);
+            await db.put({ _id: 'a2', type: 'article', views: 20 });
+            expect((await db.query('stats/by_type')).rows[0].value).toBe(2);
+            await db.query('stats/views');
+            await db.compact();
+
+            const again = open(dbName);
+            try {
+                await again.info();
+                const getMulti = jest.spyOn(DriveHandler.prototype, 'getMulti');
+                expect((await again.query('stats/views')).rows[0].value.sum).toBe(30);
+                expect(getMulti.mock.calls.map(c => c[0])).toEqual([['_design/stats'], []]);
+            } finally {
+                await again.close();
+            }
+
+            const temp = await db.query({ map: 'function (doc) { emit(doc._id, doc.views); }', reduce: '_sum' });
+            expect(temp.rows[0].value).toBe(30);
+
+            await db.remove(await db.get('_design/stats'));
+            expect(await db.viewCleanup()).toEqual({ ok: true });
+            if (!isProd) {
+                const client = new GoogleDriveClient({
+                    accessToken: 'mock-token',
+                    baseUrl: `http://127.0.0.1:${PORT}/drive/v3/files`,
+                    uploadUrl: `http://127.0.0.1:${PORT}/upload/drive/v3/files`
+                });
+                const files = await client.listFiles(`name contains 'view-index-' and trashed = false`);
+                expect(files).toEqual([]);
+            }
+            expect((await db.fsck()).problems).toEqual([]);
+        } finally {
+            await db.close();
+        }
+    }, 30000);
+});